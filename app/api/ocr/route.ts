@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_LANGUAGES, toLanguageString } from '@/utils/languagePacks';
+import { compactLyrics, detectLyrics, validateLyricsDocument } from '@/utils/lyrics';
+import { fingerprintText } from '@/utils/lyricsFingerprint';
+import { isAbortError } from '@/utils/tesseractPool';
+import { authenticateRequest } from '@/utils/server/auth';
+import { findDuplicate, rememberUpload, uploadTitle } from '@/utils/server/duplicateIndex';
+import { isImageDecodeError } from '@/utils/server/imageProcessing';
+import { OcrPageResult, recognizeImageBuffer } from '@/utils/server/ocr';
+import { parseEngine, parsePreprocess } from '@/utils/server/ocrOptions';
+import { createRateLimiter, rateLimitHeaders } from '@/utils/server/rateLimit';
+import { readBodyBytesWithLimit } from '@/utils/server/requestBody';
+import { loadSinks } from '@/utils/server/sinks';
+import { listLanguagePacks } from '@/utils/server/tessdata';
+import { deliverUpload, deliveryStatus, idempotencyKeyFor, isValidClientIdempotencyKey } from '@/utils/server/uploadDelivery';
+
+// A few phone photos per request
+const MAX_OCR_BYTES = Number(process.env.OCR_MAX_BYTES) || 20 * 1024 * 1024;
+
+// Per API key; recognition is far heavier than an upload
+const ocrLimiter = createRateLimiter(60_000);
+
+/**
+ * POST /api/ocr
+ * Runs the OCR pipeline on the server, for scripts and scanners without a browser.
+ * Authenticated like /api/upload-lyrics (API key or session cookie).
+ * multipart/form-data fields:
+ *   image       one or more image files (PNG, JPEG, WebP, TIFF, ...), recognized in order
+ *   languages   e.g. "amh+eng"; defaults to the app's default languages
+ *   preprocess  "false" to recognize the image as is, or a JSON object of preprocessing options
+ *   engine      JSON object of Tesseract settings (psm, oem, whitelist, ...)
+ *   forward     "true" to also send the text through the upload sinks, like the Save button
+ *               (an Idempotency-Key header works as for /api/upload-lyrics); a likely
+ *               duplicate of an earlier upload is still sent, tagged possibleDuplicateOf
+ * Returns the combined text and confidence plus every page with its word boxes.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        // 1. Authenticate and rate limit, before reading the body
+        const uploader = authenticateRequest(request);
+        if (!uploader) {
+            console.error('[OCR] Unauthorized request - missing or invalid credentials');
+            return NextResponse.json(
+                { error: 'Unauthorized - sign in or send a valid API key' },
+                { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="ocr"' } }
+            );
+        }
+
+        const rateLimit = ocrLimiter.check(uploader.keyId, uploader.rateLimit);
+        if (!rateLimit.allowed) {
+            console.error(`[OCR] Rate limit exceeded for key "${uploader.keyId}"`);
+            return NextResponse.json(
+                { error: 'Too many requests, try again later' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
+        const contentType = request.headers.get('content-type') ?? '';
+        if (!contentType.startsWith('multipart/form-data')) {
+            return NextResponse.json(
+                { error: 'Expected multipart/form-data with an "image" file' },
+                { status: 415 }
+            );
+        }
+
+        // 2. Read the body within the size cap and parse the form
+        const rawBody = await readBodyBytesWithLimit(request, MAX_OCR_BYTES);
+        if (rawBody === null) {
+            console.error(`[OCR] Request body over ${MAX_OCR_BYTES} bytes from key "${uploader.keyId}"`);
+            return NextResponse.json(
+                { error: `Request body too large (max ${MAX_OCR_BYTES} bytes)` },
+                { status: 413 }
+            );
+        }
+
+        let form: FormData;
+        try {
+            form = await new Response(new Uint8Array(rawBody), { headers: { 'Content-Type': contentType } }).formData();
+        } catch (parseError) {
+            console.error('[OCR] Failed to parse multipart body:', parseError);
+            return NextResponse.json(
+                { error: 'Invalid multipart body' },
+                { status: 400 }
+            );
+        }
+
+        // 3. Validate the fields
+        const images = form.getAll('image').filter((value): value is File => typeof value !== 'string');
+        if (images.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required field: image (file)' },
+                { status: 400 }
+            );
+        }
+
+        const field = (name: string) => {
+            const value = form.get(name);
+            return typeof value === 'string' ? value.trim() : null;
+        };
+
+        const languages = field('languages') || toLanguageString(DEFAULT_LANGUAGES);
+        const installed = (await listLanguagePacks()).map((pack) => pack.code);
+        const missing = languages.split('+').filter((code) => !installed.includes(code));
+        if (missing.length > 0) {
+            return NextResponse.json(
+                { error: `Unknown languages: ${missing.join(', ')}`, available: installed },
+                { status: 400 }
+            );
+        }
+
+        const preprocess = parsePreprocess(field('preprocess'));
+        if ('error' in preprocess) {
+            return NextResponse.json({ error: preprocess.error }, { status: 400 });
+        }
+        const engine = parseEngine(field('engine'));
+        if ('error' in engine) {
+            return NextResponse.json({ error: engine.error }, { status: 400 });
+        }
+
+        const forward = field('forward') === 'true';
+        const clientKey = request.headers.get('idempotency-key');
+        if (forward) {
+            if (clientKey !== null && !isValidClientIdempotencyKey(clientKey)) {
+                return NextResponse.json(
+                    { error: 'Invalid Idempotency-Key header (8-128 letters, digits, _ or -)' },
+                    { status: 400 }
+                );
+            }
+            if (loadSinks().length === 0) {
+                console.error('[OCR] Forwarding requested but no upload sinks are configured');
+                return NextResponse.json(
+                    { error: 'Backend configuration error' },
+                    { status: 500 }
+                );
+            }
+        }
+
+        // 4. Recognize the pages one after another; the pool queues them anyway
+        console.log(`[OCR] ${images.length} image(s) from "${uploader.keyId}", languages ${languages}`);
+        const pages: (OcrPageResult & { file: string })[] = [];
+        for (const image of images) {
+            try {
+                const result = await recognizeImageBuffer(
+                    Buffer.from(await image.arrayBuffer()),
+                    languages,
+                    preprocess.value,
+                    { engine: engine.value },
+                    request.signal
+                );
+                pages.push({ file: image.name, ...result });
+            } catch (error) {
+                if (!isImageDecodeError(error)) throw error;
+                console.error(`[OCR] Could not decode "${image.name}":`, error);
+                return NextResponse.json(
+                    { error: `Unsupported or corrupt image: ${image.name}` },
+                    { status: 415 }
+                );
+            }
+        }
+
+        const text = pages.map((page) => page.text.trim()).join('\n\n');
+        const confidence = pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length;
+
+        // 5. Optionally send the text on like the web client's Save button does
+        let upload;
+        if (forward) {
+            const lyrics = compactLyrics(detectLyrics(text));
+            const lyricsValid = validateLyricsDocument(lyrics).length === 0;
+            const idempotencyKey = idempotencyKeyFor(uploader.keyId, clientKey);
+            // Nobody to ask here: a likely duplicate is sent anyway and tagged
+            const signature = fingerprintText(text);
+            const match = signature && await findDuplicate(signature, idempotencyKey);
+            const destinations = await deliverUpload({
+                text,
+                ...(lyricsValid && { lyrics }),
+                metadata: {
+                    confidence,
+                    language: languages,
+                    ...(pages.length > 1 && { pages: pages.length }),
+                    timestamp: new Date().toISOString(),
+                    source: 'api-ocr',
+                    uploadedBy: uploader.keyId,
+                    ...(match && { possibleDuplicateOf: { id: match.id, similarity: match.similarity } }),
+                },
+            }, idempotencyKey);
+            upload = { status: deliveryStatus(destinations), destinations, ...(match && { possibleDuplicateOf: match }) };
+            console.log(`[OCR] Forwarded: ${destinations.map((d) => `${d.id}=${d.status}`).join(', ')}`);
+
+            if (signature && upload.status < 400) {
+                try {
+                    await rememberUpload({
+                        id: idempotencyKey,
+                        title: uploadTitle(text, lyricsValid ? lyrics.title : undefined),
+                        uploadedBy: uploader.keyId,
+                        signature,
+                    });
+                } catch (error) {
+                    console.error('[Duplicates] Could not record fingerprint:', error);
+                }
+            }
+        }
+
+        return NextResponse.json(
+            { text, confidence, languages, pages, ...(upload && { upload }) },
+            { headers: rateLimitHeaders(rateLimit) }
+        );
+
+    } catch (error) {
+        if (isAbortError(error)) {
+            console.log('[OCR] Client disconnected; recognition cancelled');
+            return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+        }
+        console.error('[OCR] Error processing request:', error);
+        return NextResponse.json(
+            {
+                error: 'Internal server error',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// Only allow POST requests
+export async function GET() {
+    return NextResponse.json(
+        { error: 'Method not allowed. Use POST.' },
+        { status: 405 }
+    );
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    authenticateRequest,
+    createSessionToken,
+    findApiKey,
+    SESSION_COOKIE,
+    sessionCookieOptions,
+    sessionsEnabled,
+} from '@/utils/server/auth';
+import { createRateLimiter, rateLimitHeaders } from '@/utils/server/rateLimit';
+import { readBodyWithLimit } from '@/utils/server/requestBody';
+
+const MAX_SIGN_IN_BYTES = 4 * 1024;
+const SIGN_IN_ATTEMPTS_PER_MINUTE = 10;
+
+// Per client address, against guessing keys
+const signInLimiter = createRateLimiter(60_000);
+
+/**
+ * Rate limit bucket for a sign-in.
+ * - TRUSTED_PROXY_COUNT (default 0) is the number of reverse proxies in front
+ *   of the app that each append the address they saw to X-Forwarded-For. The
+ *   entry that many places from the end was written by the outermost one, so
+ *   it is the client's real address; everything before it is client-supplied.
+ * - With no trusted proxy the header cannot be believed at all: Next keeps one
+ *   the client sent and only fills in the socket address when it is missing,
+ *   and a route handler has no other way to the socket. Every sign-in then
+ *   shares one bucket, so rotating the header gains an attacker nothing.
+ */
+const clientAddress = (request: NextRequest): string => {
+    const trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT) || 0;
+    if (trustedProxies < 1) return 'all';
+    const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map((hop) => hop.trim());
+    return hops[hops.length - trustedProxies] || 'unknown';
+};
+
+/**
+ * GET /api/session
+ * Tells the web client whether it is signed in, without exposing the cookie
+ */
+export async function GET(request: NextRequest) {
+    const uploader = authenticateRequest(request);
+    return NextResponse.json({
+        authenticated: uploader !== null,
+        name: uploader?.name ?? null,
+        enabled: sessionsEnabled(),
+    });
+}
+
+/**
+ * POST /api/session
+ * Exchanges an API key for an HttpOnly session cookie, so the browser never
+ * has to keep the key itself
+ */
+export async function POST(request: NextRequest) {
+    if (!sessionsEnabled()) {
+        console.error('[Session] SESSION_SECRET is missing or shorter than 32 characters');
+        return NextResponse.json(
+            { error: 'Sign-in is not configured on this server' },
+            { status: 500 }
+        );
+    }
+
+    const rateLimit = signInLimiter.check(clientAddress(request), SIGN_IN_ATTEMPTS_PER_MINUTE);
+    if (!rateLimit.allowed) {
+        return NextResponse.json(
+            { error: 'Too many sign-in attempts, try again later' },
+            { status: 429, headers: rateLimitHeaders(rateLimit) }
+        );
+    }
+
+    const rawBody = await readBodyWithLimit(request, MAX_SIGN_IN_BYTES);
+    if (rawBody === null) {
+        return NextResponse.json({ error: 'Request body too large' }, { status: 413 });
+    }
+
+    let apiKey: unknown;
+    try {
+        apiKey = (JSON.parse(rawBody) as { apiKey?: unknown }).apiKey;
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const entry = typeof apiKey === 'string' ? findApiKey(apiKey.trim()) : null;
+    if (!entry) {
+        console.error('[Session] Sign-in with an unknown API key');
+        return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ authenticated: true, name: entry.name, enabled: true });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(entry.id) ?? '', sessionCookieOptions);
+    return response;
+}
+
+/**
+ * DELETE /api/session
+ * Signs the web client out
+ */
+export async function DELETE() {
+    const response = NextResponse.json({ authenticated: false, name: null, enabled: sessionsEnabled() });
+    response.cookies.set(SESSION_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 });
+    return response;
+}
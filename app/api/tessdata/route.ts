@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { listLanguagePacks } from '@/utils/server/tessdata';
+
+/**
+ * GET /api/tessdata
+ * Lists the language models served from public/tessdata, with their sizes,
+ * since a static directory cannot be listed from the browser
+ */
+export async function GET() {
+    try {
+        return NextResponse.json({ languages: await listLanguagePacks() });
+    } catch (error) {
+        console.error('[Tessdata] Failed to list language models:', error);
+        return NextResponse.json(
+            { error: 'Language models unavailable' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,18 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import http from 'http';
+import { LyricsDocument, validateLyricsDocument } from '@/utils/lyrics';
+import { DuplicateResolution, fingerprintText, formatDuplicateMessage, isValidDuplicateResolution } from '@/utils/lyricsFingerprint';
+import { authenticateRequest } from '@/utils/server/auth';
+import { findDuplicate, hasFingerprint, rememberUpload, uploadTitle } from '@/utils/server/duplicateIndex';
+import { createRateLimiter, rateLimitHeaders } from '@/utils/server/rateLimit';
+import { readBodyWithLimit } from '@/utils/server/requestBody';
+import { loadSinks } from '@/utils/server/sinks';
+import { deliverUpload, deliveryStatus, idempotencyKeyFor, isValidClientIdempotencyKey } from '@/utils/server/uploadDelivery';
 
-// Increase body size limit to 10MB
-export const config = {
-    api: {
-        bodyParser: {
-            sizeLimit: '10mb',
-        },
-    },
-};
+// Lyrics are plain text; anything near this size is not a song
+const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 1024 * 1024;
+
+// Per API key, shared by its scripted and web (session) uploads
+const uploadLimiter = createRateLimiter(60_000);
 
 // Type definitions
 interface UploadLyricsRequest {
     text: string;
+    lyrics?: LyricsDocument; // Structured title/credits/sections, alongside the raw text
+    duplicate?: DuplicateResolution; // The uploader's answer to an earlier 409
     metadata?: {
         confidence?: number;
         language?: string;
@@ -21,34 +27,54 @@ interface UploadLyricsRequest {
     };
 }
 
-interface RemoteBackendResponse {
-    success: boolean;
-    message?: string;
-    [key: string]: any;
-}
-
 /**
  * POST /api/upload-lyrics
- * Secure serverless proxy that forwards OCR-extracted lyrics to remote HTTP backend
+ * Secure serverless proxy that fans OCR-extracted lyrics out to the configured upload sinks
+ * Accepts an API key (Authorization: Bearer / x-api-key) or a web session cookie
  */
 export async function POST(request: NextRequest) {
     try {
-        // 1. Validate API Key from header
-        // const apiKey = request.headers.get('x-api-key');
-        // const expectedKey = process.env.UPLOAD_API_SECRET;
-
-        // if (!expectedKey || apiKey !== expectedKey) {
-        //     console.error('[Proxy] Unauthorized request - invalid API key');
-        //     return NextResponse.json(
-        //         { error: 'Unauthorized - Invalid API key' },
-        //         { status: 401 }
-        //     );
-        // }
-
-        // 2. Parse and validate request body
+        // 1. Authenticate the uploader
+        const uploader = authenticateRequest(request);
+        if (!uploader) {
+            console.error('[Proxy] Unauthorized request - missing or invalid credentials');
+            return NextResponse.json(
+                { error: 'Unauthorized - sign in or send a valid API key' },
+                { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="upload-lyrics"' } }
+            );
+        }
+
+        // 2. Rate limit per key, before reading the body
+        const rateLimit = uploadLimiter.check(uploader.keyId, uploader.rateLimit);
+        if (!rateLimit.allowed) {
+            console.error(`[Proxy] Rate limit exceeded for key "${uploader.keyId}"`);
+            return NextResponse.json(
+                { error: 'Too many uploads, try again later' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
+        // 3. Read the body within the size cap, then parse and validate it
+        const rawBody = await readBodyWithLimit(request, MAX_UPLOAD_BYTES);
+        if (rawBody === null) {
+            console.error(`[Proxy] Request body over ${MAX_UPLOAD_BYTES} bytes from key "${uploader.keyId}"`);
+            return NextResponse.json(
+                { error: `Request body too large (max ${MAX_UPLOAD_BYTES} bytes)` },
+                { status: 413 }
+            );
+        }
+
+        const clientKey = request.headers.get('idempotency-key');
+        if (clientKey !== null && !isValidClientIdempotencyKey(clientKey)) {
+            return NextResponse.json(
+                { error: 'Invalid Idempotency-Key header (8-128 letters, digits, _ or -)' },
+                { status: 400 }
+            );
+        }
+
         let body: UploadLyricsRequest;
         try {
-            body = await request.json();
+            body = JSON.parse(rawBody);
         } catch (parseError) {
             console.error('[Proxy] Failed to parse JSON body:', parseError);
             return NextResponse.json(
@@ -66,30 +92,95 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // 3. Get remote backend URL from environment
-        const backendUrl = process.env.REMOTE_BACKEND_URL;
-        if (!backendUrl) {
-            console.error('[Proxy] REMOTE_BACKEND_URL not configured');
+        // Validate the structured lyrics, if sent
+        if (body.lyrics !== undefined) {
+            const lyricsErrors = validateLyricsDocument(body.lyrics);
+            if (lyricsErrors.length > 0) {
+                console.error('[Proxy] Invalid "lyrics" field:', lyricsErrors);
+                return NextResponse.json(
+                    { error: 'Invalid lyrics structure', details: lyricsErrors },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const resolution = body.duplicate;
+        if (resolution !== undefined && !isValidDuplicateResolution(resolution)) {
+            return NextResponse.json(
+                { error: 'Invalid duplicate field: action is merge, overwrite or upload; merge and overwrite need "of"' },
+                { status: 400 }
+            );
+        }
+        if (resolution?.of && !(await hasFingerprint(resolution.of))) {
+            return NextResponse.json(
+                { error: `Unknown upload "${resolution.of}" in duplicate.of` },
+                { status: 400 }
+            );
+        }
+
+        // The backend learns who uploaded from the verified key, never from the client
+        const metadata: NonNullable<UploadLyricsRequest['metadata']> = { ...body.metadata, uploadedBy: uploader.keyId };
+        const idempotencyKey = idempotencyKeyFor(uploader.keyId, clientKey);
+
+        // 4. Near-duplicate check: the uploader decides before anything is stored
+        const signature = fingerprintText(body.text);
+        if (signature && !resolution?.of) {
+            const match = await findDuplicate(signature, idempotencyKey);
+            if (match && !resolution) {
+                console.log(`[Duplicates] Upload from "${uploader.keyId}" is ${Math.round(match.similarity * 100)}% similar to ${match.id}`);
+                return NextResponse.json(
+                    { success: false, error: 'Likely duplicate', message: formatDuplicateMessage(match), duplicate: match },
+                    { status: 409, headers: rateLimitHeaders(rateLimit) }
+                );
+            }
+            // Sent anyway without asking: the backend can still review the pair
+            if (match) metadata.possibleDuplicateOf = { id: match.id, similarity: match.similarity };
+        }
+        // The backend merges or overwrites; the choice travels in the metadata
+        if (resolution?.of) metadata.duplicate = resolution;
+
+        const upload: UploadLyricsRequest = { ...body, metadata };
+        delete upload.duplicate;
+
+        // 5. Every configured destination gets the upload
+        const sinks = loadSinks();
+        if (sinks.length === 0) {
+            console.error('[Proxy] No upload sinks configured (UPLOAD_SINKS or REMOTE_BACKEND_URL)');
             return NextResponse.json(
                 { error: 'Backend configuration error' },
                 { status: 500 }
             );
         }
 
-        console.log('[Proxy] Forwarding request to remote backend...');
+        console.log(`[Proxy] Forwarding request to ${sinks.map((sink) => sink.id).join(', ')}...`);
         console.log(`[Proxy] Text length: ${body.text.length} characters`);
-        console.log(`[Proxy] Metadata:`, body.metadata);
-
-        // 4. Forward the request to remote backend using HTTP
-        const remoteResponse = await forwardToRemoteBackend(backendUrl, body);
-
-        console.log('[Proxy] Successfully forwarded to backend');
-        console.log('[Proxy] Response status:', remoteResponse.status);
+        if (body.lyrics) console.log(`[Proxy] Lyrics: "${body.lyrics.title}", ${body.lyrics.sections.length} sections`);
+        console.log(`[Proxy] Metadata:`, upload.metadata);
+
+        // 6. Deliver to all sinks, with retries; a sink that stays down keeps it in its outbox
+        const destinations = await deliverUpload(upload, idempotencyKey);
+        const status = deliveryStatus(destinations);
+        console.log(`[Proxy] Delivery: ${destinations.map((d) => `${d.id}=${d.status}`).join(', ')} -> ${status}`);
+
+        // Remembered once any destination has it, or will from its outbox
+        if (signature && status < 400) {
+            try {
+                await rememberUpload({
+                    id: idempotencyKey,
+                    title: uploadTitle(body.text, body.lyrics?.title),
+                    uploadedBy: uploader.keyId,
+                    signature,
+                }, resolution);
+            } catch (error) {
+                console.error('[Duplicates] Could not record fingerprint:', error);
+            }
+        }
 
-        // 5. Return the remote server's response to client
-        return NextResponse.json(remoteResponse.data, {
-            status: remoteResponse.status,
-        });
+        // 7. Report each destination's outcome to the client
+        return NextResponse.json(
+            { success: status < 300, destinations },
+            { status, headers: rateLimitHeaders(rateLimit) }
+        );
 
     } catch (error) {
         console.error('[Proxy] Error processing request:', error);
@@ -103,88 +194,6 @@ export async function POST(request: NextRequest) {
     }
 }
 
-/**
- * Forward request to remote HTTP backend (IPv6 support)
- */
-function forwardToRemoteBackend(
-    urlString: string,
-    payload: UploadLyricsRequest
-): Promise<{ status: number; data: any }> {
-    return new Promise((resolve, reject) => {
-        try {
-            // Parse URL (supports IPv6 in brackets: http://[2001:db8::1]:8080/path)
-            const url = new URL(urlString);
-
-            const postData = JSON.stringify(payload);
-
-            const options: http.RequestOptions = {
-                hostname: url.hostname, // IPv6 addresses are automatically handled
-                port: url.port || 80,
-                path: url.pathname + url.search,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Content-Length': Buffer.byteLength(postData),
-                    'User-Agent': 'NextJS-OCR-Proxy/1.0',
-                },
-                // Enable IPv6 support
-                family: 0, // 0 = both IPv4 and IPv6, 6 = IPv6 only
-            };
-
-            console.log('[Proxy] HTTP Request options:', {
-                hostname: options.hostname,
-                port: options.port,
-                path: options.path,
-                method: options.method,
-            });
-
-            const req = http.request(options, (res) => {
-                let data = '';
-
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-
-                res.on('end', () => {
-                    try {
-                        const parsedData = data ? JSON.parse(data) : {};
-                        resolve({
-                            status: res.statusCode || 200,
-                            data: parsedData,
-                        });
-                    } catch (parseError) {
-                        // If response is not JSON, return as plain text
-                        resolve({
-                            status: res.statusCode || 200,
-                            data: { message: data || 'Success' },
-                        });
-                    }
-                });
-            });
-
-            req.on('error', (error) => {
-                console.error('[Proxy] HTTP request failed:', error);
-                reject(new Error(`Failed to connect to remote backend: ${error.message}`));
-            });
-
-            req.on('timeout', () => {
-                req.destroy();
-                reject(new Error('Request to remote backend timed out'));
-            });
-
-            // Set timeout (30 seconds)
-            req.setTimeout(30000);
-
-            // Send the request
-            req.write(postData);
-            req.end();
-
-        } catch (error) {
-            reject(error);
-        }
-    });
-}
-
 // Only allow POST requests
 export async function GET() {
     return NextResponse.json(
@@ -1,37 +1,366 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { Page } from 'tesseract.js';
+import { flushSync } from 'react-dom';
 import { Dropzone } from '@/components/Dropzone';
-import { useOCR } from '@/hooks/useOCR';
-import { preprocessImage } from '@/utils/imageProcessing';
-import { Copy, Check, Loader2, Sparkles, Wand2, Download, Trash2, Settings, Languages, ScanLine, FileText } from 'lucide-react';
+import { BatchQueue } from '@/components/BatchQueue';
+import { PdfPagePicker } from '@/components/PdfPagePicker';
+import { ResultEditor, EditorHighlight } from '@/components/ResultEditor';
+import { FidelKeyboard } from '@/components/FidelKeyboard';
+import { ExportMenu } from '@/components/ExportMenu';
+import { HistorySidebar } from '@/components/HistorySidebar';
+import { SignInDialog } from '@/components/SignInDialog';
+import { DeliveryStatus } from '@/components/DeliveryStatus';
+import { DuplicateDialog } from '@/components/DuplicateDialog';
+import { FailedUploads } from '@/components/FailedUploads';
+import { ReviewPanel } from '@/components/ReviewPanel';
+import { BoxOverlay, OverlayBox } from '@/components/BoxOverlay';
+import { EnhanceSettings } from '@/components/EnhanceSettings';
+import { LanguagePicker } from '@/components/LanguagePicker';
+import { EngineSettings } from '@/components/EngineSettings';
+import { CornerEditor, DEFAULT_QUAD } from '@/components/CornerEditor';
+import { RegionEditor } from '@/components/RegionEditor';
+import { LyricsEditor } from '@/components/LyricsEditor';
+import { CorrectionReview } from '@/components/CorrectionReview';
+import { OCRJob, useOCR } from '@/hooks/useOCR';
+import { useBatchOCR } from '@/hooks/useBatchOCR';
+import { usePreprocessSettings } from '@/hooks/usePreprocessSettings';
+import { useLanguagePacks } from '@/hooks/useLanguagePacks';
+import { useEngineOptions } from '@/hooks/useEngineOptions';
+import { useScanHistory } from '@/hooks/useScanHistory';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { useUploadSession } from '@/hooks/useUploadSession';
+import { useServiceWorker } from '@/hooks/useServiceWorker';
+import { useAmharicDictionary } from '@/hooks/useAmharicDictionary';
+import { getImageSize, PipelineStage, preprocessImage, Quad } from '@/utils/imageProcessing';
+import { isPdfFile } from '@/utils/pdfProcessing';
+import { extractWords, findAtOffset, groupLines, locateWords, LocatedWord } from '@/utils/ocrWords';
+import type { OCRRegion } from '@/utils/ocrRegions';
+import { compactLyrics, detectLyrics, LyricsDocument, validateLyricsDocument } from '@/utils/lyrics';
+import { applyCorrections, suggestCorrections } from '@/utils/amharicCorrection';
+import { findMisspellings, suggestSpellings } from '@/utils/amharicSpellcheck';
+import type { ScanRecord } from '@/utils/scanHistory';
+import type { UploadPayload } from '@/utils/uploadQueue';
+import type { DestinationResult } from '@/utils/server/uploadDelivery';
+import type { DuplicateAction, DuplicateMatch, DuplicateResolution } from '@/utils/lyricsFingerprint';
+import { languageLabel } from '@/utils/languagePacks';
+import { buildExport, EXPORT_FORMATS, ExportFormat, exportFilename } from '@/utils/exportFormats';
+import { Copy, Check, Loader2, Sparkles, Wand2, Trash2, Settings, Languages, ScanLine, FileText, X, RotateCcw, ListChecks, Eye, BoxSelect, Crop, SquareDashed, ListTree, SpellCheck, HistoryIcon, CloudOff, AlertTriangle, SlidersHorizontal, KeyRound, LogOut } from 'lucide-react';
+
+const ENHANCE_STAGE_LABELS: Record<PipelineStage, string> = {
+  loading: 'Loading image...',
+  perspective: 'Flattening page...',
+  grayscale: 'Converting to grayscale...',
+  deskew: 'Straightening text...',
+  denoise: 'Removing noise...',
+  threshold: 'Binarizing...',
+  encoding: 'Preparing image...',
+};
+
+// Authenticated by the HttpOnly session cookie; no key is ever sent from the page.
+// Retries of the same save reuse its idempotency key, so the backend stores it once.
+const sendUpload = (payload: UploadPayload, idempotencyKey?: string) =>
+  fetch('/api/upload-lyrics', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+    },
+    body: JSON.stringify(payload),
+  });
+
+// Nobody is there to answer a duplicate prompt when the queue sends it later,
+// so queued uploads go through and the server only tags a likely duplicate
+const queueable = (payload: UploadPayload): UploadPayload => ({ duplicate: { action: 'upload' }, ...payload });
 
 export default function Home() {
   const [image, setImage] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
-  const { performOCR, progress, status, statusMessage, result, confidence } = useOCR();
+  // The original upload and the preprocessed version OCR actually ran on
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [processedUrl, setProcessedUrl] = useState<string | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [ocrImageSize, setOcrImageSize] = useState<{ width: number; height: number } | null>(null);
+  const preview = showOriginal || !processedUrl ? originalUrl : processedUrl;
+  const ocrSource = processedUrl ?? originalUrl;
+
+  // Four-corner perspective correction: the applied quad, and a draft while dragging
+  const [perspectiveQuad, setPerspectiveQuad] = useState<Quad | null>(null);
+  const [editingCorners, setEditingCorners] = useState<Quad | null>(null);
+
+  // Regions of interest on the OCR image; when set, only these are recognized
+  const [regions, setRegions] = useState<OCRRegion[]>([]);
+  const [editingRegions, setEditingRegions] = useState<OCRRegion[] | null>(null);
+  const { performOCR, cancelOCR, restoreResult, progress, status, statusMessage, result, resultJobId, confidence, data } = useOCR();
   const [editableText, setEditableText] = useState('');
   const [copied, setCopied] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'queued' | 'partial' | 'error'>('idle');
+  const [destinations, setDestinations] = useState<DestinationResult[]>([]);
+  const uploadQueue = useUploadQueue(sendUpload);
+  const uploadSession = useUploadSession();
+  const [showSignIn, setShowSignIn] = useState(false);
+  const [showFailedUploads, setShowFailedUploads] = useState(false);
+  const retrySaveRef = useRef(false); // Save again once the sign-in it triggered succeeds
+  const [duplicateMatch, setDuplicateMatch] = useState<DuplicateMatch | null>(null);
+
+  // Low-confidence review
+  const [confidenceThreshold, setConfidenceThreshold] = useState(60);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [reviewedWords, setReviewedWords] = useState<Set<number>>(new Set());
+
+  // Image <-> text sync
+  const [overlayLevel, setOverlayLevel] = useState<'off' | 'words' | 'lines'>('words');
+  const [caret, setCaret] = useState<number | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Song structure: detected from the text until the user edits it by hand
+  const [lyricsOverride, setLyricsOverride] = useState<LyricsDocument | null>(null);
+  const [showStructure, setShowStructure] = useState(false);
+
+  // Post-OCR corrections: suggested on every new result, then applied or dismissed
+  const { dictionary, addWord } = useAmharicDictionary();
+  const [rejectedCorrections, setRejectedCorrections] = useState<Set<string>>(new Set());
+  const [correctionsResolved, setCorrectionsResolved] = useState(false);
+
+  // Spell-check against the same lexicon; ignored words only last for this session
+  const [spellCheck, setSpellCheck] = useState(true);
+  const [ignoredWords, setIgnoredWords] = useState<Set<string>>(new Set());
+
+  // Latin-to-fidel typing and the on-screen palette
+  const [transliterate, setTransliterate] = useState(false);
+
+  // Local history: the entry the current scan is saved as, and a scan being reopened
+  const history = useScanHistory();
+  const { recordScan, updateEntry } = history;
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const restoredScanRef = useRef<ScanRecord | null>(null);
+
+  // Bumped on every new scan or reset so late preprocessing results are dropped
+  const scanTokenRef = useRef(0);
+  const [enhanceProgress, setEnhanceProgress] = useState<{ stage: PipelineStage; progress: number } | null>(null);
+
+  // PDFs waiting for page selection, and the pages collected so far
+  const [pendingPdfs, setPendingPdfs] = useState<File[]>([]);
+  const [collectedPages, setCollectedPages] = useState<File[]>([]);
 
   // Options
-  const [useEnglish, setUseEnglish] = useState(false);
   const [usePreprocessing, setUsePreprocessing] = useState(true);
+  const [showEnhanceSettings, setShowEnhanceSettings] = useState(false);
+  const enhance = usePreprocessSettings();
+  const languagePacks = useLanguagePacks();
+  const [showLanguagePicker, setShowLanguagePicker] = useState(false);
+  const { languages } = languagePacks;
+  const engine = useEngineOptions();
+  const [showEngineSettings, setShowEngineSettings] = useState(false);
+  useServiceWorker(languages);
+
+  const recordBatchPage = useCallback((file: File, page: Page, processedImage: string | null) => {
+    recordScan({
+      name: file.name,
+      image: file,
+      processedImage,
+      page,
+      ocrText: page.text,
+      editedText: page.text,
+      confidence: page.confidence,
+      languages,
+      perspective: null,
+      regions: [],
+      lyrics: null,
+    });
+  }, [recordScan, languages]);
+
+  const batch = useBatchOCR({
+    languages,
+    usePreprocessing,
+    preprocessOptions: enhance.options,
+    engineOptions: engine.options,
+    onPageRecognized: recordBatchPage,
+  });
+  const isBatch = batch.items.length > 0;
 
   useEffect(() => {
-    if (result) setEditableText(result);
-  }, [result]);
+    // A scan reopened from the history comes back with its manual edits
+    const restored = restoredScanRef.current;
+    restoredScanRef.current = null;
+    if (result) setEditableText(restored?.editedText ?? result);
+    setLyricsOverride(restored?.lyrics ?? null);
+    setRejectedCorrections(new Set());
+    setCorrectionsResolved(false);
+    setReviewedWords(new Set());
+    setReviewMode(false);
+  }, [result, resultJobId]);
+
+  // Keep the history entry in step with manual edits, once OCR has settled
+  // (a re-run clears the editor while it preprocesses, which must not be saved)
+  useEffect(() => {
+    if (!historyId || status !== 'completed' || enhanceProgress !== null) return;
+    const timer = setTimeout(() => updateEntry(historyId, { editedText: editableText, lyrics: lyricsOverride }), 800);
+    return () => clearTimeout(timer);
+  }, [historyId, status, enhanceProgress, editableText, lyricsOverride, updateEntry]);
+
+  // Fill the editor once every page of the batch has settled
+  useEffect(() => {
+    if (isBatch && !batch.isRunning) {
+      setEditableText(batch.combinedText);
+      setRejectedCorrections(new Set());
+      setCorrectionsResolved(false);
+    }
+  }, [isBatch, batch.isRunning, batch.combinedText]);
+
+  // Word boxes only exist for single-image scans; batch text has no layout attached
+  const ocrWords = useMemo(() => extractWords(isBatch ? null : data), [data, isBatch]);
+  const locatedWords = useMemo(() => locateWords(editableText, ocrWords), [editableText, ocrWords]);
+  const lowConfidenceWords = useMemo(
+    () => locatedWords.filter((word) => word.range && word.confidence < confidenceThreshold && !reviewedWords.has(word.index)),
+    [locatedWords, confidenceThreshold, reviewedWords]
+  );
+  const activeReviewIndex = Math.min(reviewIndex, Math.max(lowConfidenceWords.length - 1, 0));
+  const activeReviewWord = reviewMode ? lowConfidenceWords[activeReviewIndex] : undefined;
+
+  // The raw recognized text, which corrections are computed against
+  const ocrText = isBatch ? (batch.isRunning ? null : batch.combinedText) : result;
+  const corrections = useMemo(
+    () => (ocrText && dictionary ? suggestCorrections(ocrText, dictionary) : []),
+    [ocrText, dictionary]
+  );
+  const showCorrections = corrections.length > 0 && !correctionsResolved;
+
+  const highlights: EditorHighlight[] = lowConfidenceWords.map((word) => ({
+    start: word.range!.start,
+    end: word.range!.end,
+    className: word === activeReviewWord ? 'bg-indigo-300/70 dark:bg-indigo-500/50' : 'bg-amber-200/70 dark:bg-amber-500/30',
+  }));
+  // Correction offsets are only valid until the text is edited
+  if (showCorrections && editableText === ocrText) {
+    highlights.push(...corrections
+      .filter((correction) => !rejectedCorrections.has(correction.id))
+      .map((correction) => ({ start: correction.start, end: correction.end, className: 'bg-sky-200/70 dark:bg-sky-500/30' })));
+  }
+
+  const misspellings = useMemo(
+    () => (spellCheck && dictionary ? findMisspellings(editableText, dictionary, ignoredWords) : []),
+    [spellCheck, dictionary, editableText, ignoredWords]
+  );
+
+  const toggleCorrection = (id: string) => {
+    setRejectedCorrections((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleApplyCorrections = () => {
+    const accepted = corrections.filter((correction) => !rejectedCorrections.has(correction.id));
+    setEditableText((text) => applyCorrections(text, accepted));
+    setCorrectionsResolved(true);
+  };
+
+  const ocrLines = useMemo(() => groupLines(locatedWords), [locatedWords]);
+  const detectedLyrics = useMemo(() => detectLyrics(editableText, ocrLines), [editableText, ocrLines]);
+  const lyrics = lyricsOverride ?? detectedLyrics;
+  const caretWord = caret !== null ? findAtOffset(locatedWords, caret) : undefined;
+  const caretLine = caret !== null ? findAtOffset(ocrLines, caret) : undefined;
+
+  const overlayBoxes: OverlayBox[] = overlayLevel === 'lines'
+    ? ocrLines.map((line) => ({
+      id: line.index,
+      bbox: line.bbox,
+      active: line.index === (activeReviewWord?.line ?? caretLine?.index),
+    }))
+    : overlayLevel === 'words'
+      ? locatedWords.map((word) => ({
+        id: word.index,
+        bbox: word.bbox,
+        active: word.index === (activeReviewWord ?? caretWord)?.index,
+        title: `${word.text} (${word.confidence.toFixed(0)}%)`,
+      }))
+      : [];
+
+  // Clicking a box selects its text in the editor, which in turn moves the caret highlight
+  const handleBoxClick = (id: number) => {
+    const target = overlayLevel === 'lines' ? ocrLines.find((line) => line.index === id) : locatedWords[id];
+    const textarea = textareaRef.current;
+    if (!target?.range || !textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(target.range.start, target.range.end);
+    setCaret(target.range.start);
+  };
+
+  const markReviewed = (word: LocatedWord) => {
+    setReviewedWords((prev) => new Set(prev).add(word.index));
+  };
+
+  const handleReplaceWord = (word: LocatedWord, replacement: string) => {
+    if (!word.range) return;
+    const { start, end } = word.range;
+    setEditableText((text) => text.slice(0, start) + replacement + text.slice(end));
+    markReviewed(word);
+  };
+
+  // Palette keys replace the selection (or insert at the caret) and keep typing where they left off
+  const handleInsertText = (text: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? editableText.length;
+    const end = textarea?.selectionEnd ?? start;
+    flushSync(() => setEditableText(editableText.slice(0, start) + text + editableText.slice(end)));
+    textarea?.focus();
+    textarea?.setSelectionRange(start + text.length, start + text.length);
+    setCaret(start + text.length);
+  };
+
+  // New scans get a history entry once recognized; re-runs of a saved scan update it instead
+  const saveToHistory = async (job: OCRJob, entryId: string | null, scan: { file: File; processedImage: string | null; perspective: Quad | null; regions: OCRRegion[] }) => {
+    const page = await job.result;
+    if (!page) return;
+
+    const fields = {
+      processedImage: scan.processedImage,
+      page,
+      ocrText: page.text,
+      editedText: page.text,
+      confidence: page.confidence,
+      languages,
+      perspective: scan.perspective,
+      regions: scan.regions,
+      lyrics: null,
+    };
+    if (entryId) {
+      updateEntry(entryId, fields);
+      return;
+    }
+    const token = scanTokenRef.current;
+    const id = await recordScan({ name: scan.file.name, image: scan.file, ...fields });
+    if (id && token === scanTokenRef.current) setHistoryId(id);
+  };
+
+  const processImage = async (file: File, perspective: Quad | null = null, ocrRegions: OCRRegion[] = [], entryId: string | null = null) => {
+    const token = ++scanTokenRef.current;
+    restoredScanRef.current = null;
+    setHistoryId(entryId);
 
-  const handleFile = async (file: File) => {
     // Reset states
-    if (preview) URL.revokeObjectURL(preview);
+    if (originalUrl) URL.revokeObjectURL(originalUrl);
     setImage(file);
     setEditableText('');
+    setCaret(null);
+    setShowOriginal(false);
+    setProcessedUrl(null);
+    setOcrImageSize(null);
+    setPerspectiveQuad(perspective);
+    setEditingCorners(null);
+    setRegions(ocrRegions);
+    setEditingRegions(null);
 
     // Default preview is the original file
-    let previewUrl = URL.createObjectURL(file);
-    setPreview(previewUrl);
+    const previewUrl = URL.createObjectURL(file);
+    setOriginalUrl(previewUrl);
 
     let inputForOCR: File | string = file;
 
@@ -39,29 +368,164 @@ export default function Home() {
     if (usePreprocessing) {
       // We process immediately to show the user what the machine sees
       // This might overwrite the preview with the B&W version
+      setEnhanceProgress({ stage: 'loading', progress: 0 });
       try {
-        const processed = await preprocessImage(file, { grayscale: true, binarize: true });
+        const processed = await preprocessImage(file, { ...enhance.options, perspective }, (stage, value) => {
+          if (token === scanTokenRef.current) setEnhanceProgress({ stage, progress: value });
+        });
+        if (token !== scanTokenRef.current) return;
         // Update preview to show the processed version (optional, but good for trust)
         // If processed is a data URL string
         if (typeof processed === 'string') {
           // For UX, maybe update the preview to show the "Cleaned" version
-          setPreview(processed);
+          setProcessedUrl(processed);
           inputForOCR = processed;
         }
       } catch (e) {
         console.error("Preprocessing failed, falling back to original", e);
       }
+      if (token === scanTokenRef.current) setEnhanceProgress(null);
+    }
+
+    if (token !== scanTokenRef.current) return;
+
+    // Word boxes are in the pixel space of whatever image OCR receives
+    getImageSize(typeof inputForOCR === 'string' ? inputForOCR : previewUrl)
+      .then((size) => {
+        if (token === scanTokenRef.current) setOcrImageSize(size);
+      })
+      .catch((e) => console.error('Could not measure OCR image', e));
+
+    const job = performOCR(inputForOCR, languages, ocrRegions, engine.options);
+    saveToHistory(job, entryId, {
+      file,
+      processedImage: typeof inputForOCR === 'string' ? inputForOCR : null,
+      perspective,
+      regions: ocrRegions,
+    });
+  };
+
+  const recognizeRegions = (selected: OCRRegion[]) => {
+    if (!ocrSource) return;
+    setRegions(selected);
+    setEditingRegions(null);
+    setCaret(null);
+    const job = performOCR(ocrSource, languages, selected, engine.options);
+    if (image) saveToHistory(job, historyId, { file: image, processedImage: processedUrl, perspective: perspectiveQuad, regions: selected });
+  };
+
+  const startOCR = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1) {
+      processImage(files[0]);
+      return;
     }
 
-    const langs = useEnglish ? 'amh+eng' : 'amh';
-    performOCR(inputForOCR, langs);
+    if (originalUrl) URL.revokeObjectURL(originalUrl);
+    setImage(null);
+    setOriginalUrl(null);
+    setProcessedUrl(null);
+    setEditableText('');
+    batch.enqueue(files);
+  };
+
+  const handleFiles = (files: File[]) => {
+    const pdfs = files.filter(isPdfFile);
+    const images = files.filter((file) => !isPdfFile(file));
+
+    if (pdfs.length === 0) {
+      startOCR(images);
+      return;
+    }
+
+    // PDFs go through the page picker first, one document at a time
+    setPendingPdfs(pdfs);
+    setCollectedPages(images);
+  };
+
+  const handleFile = (file: File) => handleFiles([file]);
+
+  const handlePdfPagesSelected = (pages: File[]) => {
+    const collected = [...collectedPages, ...pages];
+    const remaining = pendingPdfs.slice(1);
+
+    if (remaining.length > 0) {
+      setPendingPdfs(remaining);
+      setCollectedPages(collected);
+      return;
+    }
+
+    setPendingPdfs([]);
+    setCollectedPages([]);
+    startOCR(collected);
   };
 
   const handleClear = () => {
-    if (preview && !preview.startsWith('data:')) URL.revokeObjectURL(preview);
+    scanTokenRef.current++;
+    setHistoryId(null);
+    setEnhanceProgress(null);
+    setLyricsOverride(null);
+    setCorrectionsResolved(false);
+    cancelOCR();
+    if (originalUrl) URL.revokeObjectURL(originalUrl);
     setImage(null);
-    setPreview(null);
+    setOriginalUrl(null);
+    setProcessedUrl(null);
     setEditableText('');
+    setPendingPdfs([]);
+    setCollectedPages([]);
+    batch.clear();
+  };
+
+  const handleOpenScan = async (id: string) => {
+    const scan = await history.loadEntry(id);
+    if (!scan) return;
+
+    scanTokenRef.current++;
+    setEnhanceProgress(null);
+    batch.clear();
+    if (originalUrl) URL.revokeObjectURL(originalUrl);
+    const file = new File([scan.image], scan.name, { type: scan.image.type });
+    const url = URL.createObjectURL(file);
+    setImage(file);
+    setOriginalUrl(url);
+    setProcessedUrl(scan.processedImage);
+    setShowOriginal(false);
+    setPerspectiveQuad(scan.perspective);
+    setEditingCorners(null);
+    setRegions(scan.regions);
+    setEditingRegions(null);
+    setCaret(null);
+    setOcrImageSize(null);
+    setHistoryId(scan.id);
+    setShowHistory(false);
+
+    const token = scanTokenRef.current;
+    getImageSize(scan.processedImage ?? url)
+      .then((size) => {
+        if (token === scanTokenRef.current) setOcrImageSize(size);
+      })
+      .catch((e) => console.error('Could not measure OCR image', e));
+
+    if (scan.page) {
+      restoredScanRef.current = scan;
+      restoreResult(scan.page);
+    } else {
+      setEditableText(scan.editedText);
+    }
+  };
+
+  const handleRerunScan = async (id: string) => {
+    const scan = await history.loadEntry(id);
+    if (!scan) return;
+    batch.clear();
+    setShowHistory(false);
+    processImage(new File([scan.image], scan.name, { type: scan.image.type }), scan.perspective, scan.regions, scan.id);
+  };
+
+  const handleDeleteScan = (id: string) => {
+    history.removeEntry(id);
+    if (id === historyId) setHistoryId(null);
   };
 
   const handleCopy = () => {
@@ -70,41 +534,106 @@ export default function Home() {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleDownload = () => {
+  const handleDownload = (format: ExportFormat) => {
+    const info = EXPORT_FORMATS.find((f) => f.format === format);
+    const sourceName = isBatch ? batch.items[0]?.file.name : image?.name;
+    const content = buildExport(format, {
+      text: editableText,
+      lyrics: compactLyrics(lyrics),
+      sourceName,
+      languages,
+      confidence: isBatch ? batch.averageConfidence : confidence,
+      words: ocrWords,
+      page: isBatch ? null : data,
+      imageSize: ocrImageSize,
+      ...(isBatch && { pages: batch.items.length }),
+    });
+
     const element = document.createElement("a");
-    const file = new Blob([editableText], { type: 'text/plain' });
+    const file = new Blob([content], { type: `${info?.mimeType ?? 'text/plain'};charset=utf-8` });
     element.href = URL.createObjectURL(file);
-    element.download = "amharic_ocr_result.txt";
+    element.download = exportFilename(sourceName, format);
     document.body.appendChild(element);
     element.click();
+    element.remove();
+    setTimeout(() => URL.revokeObjectURL(element.href), 1000);
   };
 
-  const handleSaveToServer = async () => {
+  // `duplicate` is the answer to the server's "likely duplicate" prompt, on the second attempt
+  const handleSaveToServer = async (duplicate?: DuplicateResolution) => {
     if (!editableText) return;
 
     setIsSaving(true);
     setSaveStatus('idle');
+    setDestinations([]);
+
+    // The server rejects the whole upload for a structure over its limits
+    // (very long lines, hundreds of sections); the plain text still goes through
+    const structured = compactLyrics(lyrics);
+    const lyricsErrors = validateLyricsDocument(structured);
+    if (lyricsErrors.length > 0) console.warn('Saving without the lyrics structure:', lyricsErrors);
+
+    const payload: UploadPayload = {
+      text: editableText,
+      ...(lyricsErrors.length === 0 && { lyrics: structured }),
+      metadata: {
+        confidence: isBatch ? batch.averageConfidence : confidence,
+        ...(isBatch && { pages: batch.items.length }),
+        timestamp: new Date().toISOString(),
+        source: 'web-client'
+      },
+      ...(duplicate && { duplicate })
+    };
+    const idempotencyKey = crypto.randomUUID();
 
     try {
-      const response = await fetch('/api/upload-lyrics', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': process.env.NEXT_PUBLIC_UPLOAD_API_KEY || '',
-        },
-        body: JSON.stringify({
-          text: editableText,
-          metadata: {
-            confidence,
-            timestamp: new Date().toISOString(),
-            source: 'web-client'
-          }
-        }),
-      });
+      // Without a connection the upload waits in the local queue instead of failing
+      if (!navigator.onLine) {
+        await uploadQueue.enqueue(queueable(payload), idempotencyKey);
+        setSaveStatus('queued');
+        setTimeout(() => setSaveStatus('idle'), 3000);
+        return;
+      }
 
+      let response: Response;
+      try {
+        response = await sendUpload(payload, idempotencyKey);
+      } catch (networkError) {
+        console.error('Upload failed, queued for later:', networkError);
+        await uploadQueue.enqueue(queueable(payload), idempotencyKey);
+        setSaveStatus('queued');
+        setTimeout(() => setSaveStatus('idle'), 3000);
+        return;
+      }
+
+      if (response.status === 401) {
+        uploadSession.markSignedOut();
+        retrySaveRef.current = true;
+        setShowSignIn(true);
+        return;
+      }
+
+      // Close to an earlier upload: nothing was stored, the user picks what to do
+      if (response.status === 409) {
+        const result = await response.json().catch(() => null) as { duplicate?: DuplicateMatch } | null;
+        if (result?.duplicate) {
+          setDuplicateMatch(result.duplicate);
+          return;
+        }
+      }
+
+      // Each configured destination reports its own outcome
+      const result = await response.json().catch(() => null) as { destinations?: DestinationResult[] } | null;
+      setDestinations(result?.destinations ?? []);
       if (!response.ok) throw new Error('Failed to save');
 
-      setSaveStatus('success');
+      // 202: a destination is down and the server will deliver it later; 207: some rejected it
+      if (response.status === 207) {
+        setSaveStatus('partial');
+        setTimeout(() => setSaveStatus('idle'), 8000);
+        return;
+      }
+      setSaveStatus(response.status === 202 ? 'queued' : 'success');
       setTimeout(() => setSaveStatus('idle'), 3000);
     } catch (err) {
       console.error('Save error:', err);
@@ -115,7 +644,26 @@ export default function Home() {
     }
   };
 
-  const isLoading = status === 'initializing' || status === 'recognizing';
+  const handleResolveDuplicate = (action: DuplicateAction) => {
+    if (!duplicateMatch) return;
+    setDuplicateMatch(null);
+    handleSaveToServer({ action, of: duplicateMatch.id });
+  };
+
+  const handleSignIn = async (apiKey: string) => {
+    const error = await uploadSession.signIn(apiKey);
+    if (error) return error;
+
+    setShowSignIn(false);
+    uploadQueue.flush();
+    if (retrySaveRef.current) {
+      retrySaveRef.current = false;
+      handleSaveToServer();
+    }
+    return null;
+  };
+
+  const isLoading = status === 'initializing' || status === 'recognizing' || enhanceProgress !== null;
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 selection:bg-indigo-500/30 font-sans">
@@ -132,6 +680,56 @@ export default function Home() {
             </h1>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title="Scans saved in this browser"
+            >
+              <HistoryIcon className="w-4 h-4" />
+              History
+            </button>
+            {uploadSession.session?.authenticated ? (
+              <button
+                onClick={uploadSession.signOut}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title="Sign out of uploads"
+              >
+                <LogOut className="w-4 h-4" />
+                {uploadSession.session.name}
+              </button>
+            ) : uploadSession.session?.enabled && (
+              <button
+                onClick={() => setShowSignIn(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title="Sign in to save results to the server"
+              >
+                <KeyRound className="w-4 h-4" />
+                Sign in
+              </button>
+            )}
+            {(!uploadQueue.isOnline || uploadQueue.pendingCount > 0) && (
+              <button
+                onClick={uploadQueue.flush}
+                disabled={!uploadQueue.isOnline}
+                className="flex items-center gap-2 px-3 py-1 bg-amber-50 dark:bg-amber-900/20 rounded-full border border-amber-200 dark:border-amber-800 text-xs font-medium text-amber-700 dark:text-amber-300"
+                title={uploadQueue.isOnline ? 'Retry queued uploads now' : 'Scans still work offline; uploads are sent when the connection is back'}
+              >
+                <CloudOff className="w-3.5 h-3.5" />
+                {!uploadQueue.isOnline && 'Offline'}
+                {!uploadQueue.isOnline && uploadQueue.pendingCount > 0 && ' · '}
+                {uploadQueue.pendingCount > 0 && `${uploadQueue.pendingCount} queued`}
+              </button>
+            )}
+            {uploadQueue.failed.length > 0 && (
+              <button
+                onClick={() => setShowFailedUploads(true)}
+                className="flex items-center gap-2 px-3 py-1 bg-red-50 dark:bg-red-900/20 rounded-full border border-red-200 dark:border-red-800 text-xs font-medium text-red-700 dark:text-red-300"
+                title="Queued uploads the server rejected"
+              >
+                <AlertTriangle className="w-3.5 h-3.5" />
+                {uploadQueue.failed.length} not saved
+              </button>
+            )}
             <div className="hidden md:flex items-center gap-2 px-3 py-1 bg-slate-100 dark:bg-slate-900 rounded-full border border-slate-200 dark:border-slate-800">
               <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
               <span className="text-xs font-medium text-slate-600 dark:text-slate-400">Client-Side Processing</span>
@@ -140,6 +738,44 @@ export default function Home() {
         </div>
       </header>
 
+      {showSignIn && (
+        <SignInDialog
+          onSignIn={handleSignIn}
+          onClose={() => {
+            retrySaveRef.current = false;
+            setShowSignIn(false);
+          }}
+        />
+      )}
+
+      {showFailedUploads && (
+        <FailedUploads
+          uploads={uploadQueue.failed}
+          onRetry={uploadQueue.retry}
+          onDiscard={uploadQueue.discard}
+          onClose={() => setShowFailedUploads(false)}
+        />
+      )}
+
+      {duplicateMatch && (
+        <DuplicateDialog
+          match={duplicateMatch}
+          onResolve={handleResolveDuplicate}
+          onClose={() => setDuplicateMatch(null)}
+        />
+      )}
+
+      {showHistory && (
+        <HistorySidebar
+          scans={history.scans}
+          activeId={historyId}
+          onOpen={handleOpenScan}
+          onRerun={handleRerunScan}
+          onDelete={handleDeleteScan}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 md:py-12">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
 
@@ -156,11 +792,12 @@ export default function Home() {
                 {/* Controls */}
                 <div className="flex items-center gap-2">
                   <button
-                    onClick={() => setUseEnglish(!useEnglish)}
-                    className={`text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border transition-all ${useEnglish ? 'bg-indigo-50 border-indigo-200 text-indigo-700 dark:bg-indigo-900/30 dark:border-indigo-800 dark:text-indigo-300' : 'bg-transparent border-slate-200 text-slate-500 hover:bg-slate-50 dark:border-slate-700'}`}
+                    onClick={() => setShowLanguagePicker(!showLanguagePicker)}
+                    title="Choose OCR languages"
+                    className={`text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border transition-all ${showLanguagePicker || languagePacks.selection.length > 1 ? 'bg-indigo-50 border-indigo-200 text-indigo-700 dark:bg-indigo-900/30 dark:border-indigo-800 dark:text-indigo-300' : 'bg-transparent border-slate-200 text-slate-500 hover:bg-slate-50 dark:border-slate-700'}`}
                   >
                     <Languages className="w-3 h-3" />
-                    Amharic {useEnglish && '+ English'}
+                    {languagePacks.selection.map(languageLabel).join(' + ')}
                   </button>
 
                   <button
@@ -171,12 +808,99 @@ export default function Home() {
                     <Wand2 className="w-3 h-3" />
                     Enhance: {usePreprocessing ? 'On' : 'Off'}
                   </button>
+
+                  <button
+                    onClick={() => setShowEnhanceSettings(!showEnhanceSettings)}
+                    className={`p-1.5 rounded-full border transition-all ${showEnhanceSettings ? 'bg-emerald-50 border-emerald-200 text-emerald-700 dark:bg-emerald-900/30 dark:border-emerald-800 dark:text-emerald-300' : 'bg-transparent border-slate-200 text-slate-500 hover:bg-slate-50 dark:border-slate-700'}`}
+                    title="Enhance settings"
+                  >
+                    <Settings className="w-3 h-3" />
+                  </button>
+
+                  <button
+                    onClick={() => setShowEngineSettings(!showEngineSettings)}
+                    className={`p-1.5 rounded-full border transition-all ${showEngineSettings ? 'bg-violet-50 border-violet-200 text-violet-700 dark:bg-violet-900/30 dark:border-violet-800 dark:text-violet-300' : 'bg-transparent border-slate-200 text-slate-500 hover:bg-slate-50 dark:border-slate-700'}`}
+                    title="Advanced OCR settings"
+                  >
+                    <SlidersHorizontal className="w-3 h-3" />
+                  </button>
                 </div>
               </div>
 
-              {!preview ? (
+              {showLanguagePicker && (
+                <LanguagePicker
+                  packs={languagePacks.packs}
+                  selection={languagePacks.selection}
+                  onToggle={languagePacks.toggle}
+                  onMove={languagePacks.move}
+                  onClose={() => setShowLanguagePicker(false)}
+                />
+              )}
+
+              {showEnhanceSettings && (
+                <EnhanceSettings
+                  options={enhance.options}
+                  onOptionChange={enhance.updateOption}
+                  presets={enhance.presets}
+                  activePreset={enhance.activePreset}
+                  onApplyPreset={enhance.applyPreset}
+                  onSavePreset={enhance.savePreset}
+                  onDeletePreset={enhance.deletePreset}
+                  image={image}
+                  onRerun={image && usePreprocessing && !isLoading ? () => processImage(image, perspectiveQuad, regions, historyId) : undefined}
+                  onClose={() => setShowEnhanceSettings(false)}
+                />
+              )}
+
+              {showEngineSettings && (
+                <EngineSettings
+                  options={engine.options}
+                  onOptionChange={engine.updateOption}
+                  onReset={engine.resetOptions}
+                  onRerun={image && !isLoading ? () => processImage(image, perspectiveQuad, regions, historyId) : undefined}
+                  onClose={() => setShowEngineSettings(false)}
+                />
+              )}
+
+              {pendingPdfs.length > 0 ? (
+                <PdfPagePicker
+                  key={`${pendingPdfs[0].name}-${pendingPdfs.length}`}
+                  file={pendingPdfs[0]}
+                  onConfirm={handlePdfPagesSelected}
+                  onCancel={() => handlePdfPagesSelected([])}
+                />
+              ) : isBatch ? (
+                <div className="flex-1 flex flex-col">
+                  <BatchQueue
+                    items={batch.items}
+                    concurrency={batch.concurrency}
+                    onConcurrencyChange={batch.setConcurrency}
+                    onRetry={batch.retry}
+                    onRetryFailed={batch.retryFailed}
+                    onRemove={batch.remove}
+                  />
+
+                  <div className="mt-4 flex justify-between items-center">
+                    <button
+                      onClick={handleClear}
+                      className="text-sm px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition-colors flex items-center gap-2"
+                    >
+                      <Trash2 className="w-4 h-4" /> Reset
+                    </button>
+
+                    {batch.averageConfidence > 0 && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-slate-400">Avg. confidence:</span>
+                        <span className={`font-bold ${batch.averageConfidence > 80 ? 'text-green-600' : 'text-amber-600'}`}>
+                          {batch.averageConfidence.toFixed(1)}%
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ) : !preview ? (
                 <div className="flex-1 flex flex-col justify-center">
-                  <Dropzone onFileAccepted={handleFile} isLoading={isLoading} />
+                  <Dropzone onFileAccepted={handleFile} onFilesAccepted={handleFiles} isLoading={isLoading} />
                   <div className="mt-8 text-center text-sm text-slate-400">
                     <p>Supports drag & drop or click to upload.</p>
                     <p>Privacy First: Images are processed locally in your browser.</p>
@@ -191,12 +915,127 @@ export default function Home() {
                       style={{ backgroundImage: `url(${preview})` }}
                     />
 
-                    {/* Main Image */}
-                    <img
-                      src={preview}
-                      alt="Uploaded content"
-                      className="relative max-w-full max-h-[500px] object-contain shadow-lg"
-                    />
+                    {/* Main Image with recognized word/line boxes, or the corner editor */}
+                    {editingCorners && originalUrl ? (
+                      <CornerEditor src={originalUrl} quad={editingCorners} onChange={setEditingCorners} />
+                    ) : editingRegions && ocrSource ? (
+                      // Regions are drawn on the image OCR actually runs on
+                      <RegionEditor
+                        src={ocrSource}
+                        regions={editingRegions}
+                        onChange={setEditingRegions}
+                        languageOptions={languagePacks.packs?.map((pack) => pack.code) ?? languagePacks.selection}
+                      />
+                    ) : (
+                      <BoxOverlay
+                        src={preview}
+                        alt="Uploaded content"
+                        sourceSize={ocrImageSize}
+                        // Deskew and perspective change the geometry, so boxes only line up on the enhanced image
+                        boxes={status === 'completed' && !(showOriginal && (perspectiveQuad || enhance.options.deskew)) ? overlayBoxes : []}
+                        onBoxClick={handleBoxClick}
+                      />
+                    )}
+
+                    {/* Preview Controls */}
+                    {editingCorners && image ? (
+                      <div className="absolute top-3 right-3 z-[5] flex items-center gap-2">
+                        {perspectiveQuad && (
+                          <button
+                            onClick={() => processImage(image, null, [], historyId)}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                            title="Remove the perspective correction and re-run OCR"
+                          >
+                            <RotateCcw className="w-3 h-3" /> Remove
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingCorners(null)}
+                          className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                        >
+                          <X className="w-3 h-3" /> Cancel
+                        </button>
+                        <button
+                          onClick={() => processImage(image, editingCorners, [], historyId)}
+                          className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm"
+                          title="Warp the marked page flat and re-run OCR"
+                        >
+                          <Check className="w-3 h-3" /> Flatten
+                        </button>
+                      </div>
+                    ) : editingRegions ? (
+                      <div className="absolute top-3 right-3 z-[5] flex items-center gap-2">
+                        {editingRegions.length > 0 && (
+                          <button
+                            onClick={() => setEditingRegions([])}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                            title="Remove all regions"
+                          >
+                            <Trash2 className="w-3 h-3" /> Clear
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditingRegions(null)}
+                          className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                        >
+                          <X className="w-3 h-3" /> Cancel
+                        </button>
+                        <button
+                          onClick={() => recognizeRegions(editingRegions)}
+                          className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm"
+                          title="Recognize only the marked regions, in reading order"
+                        >
+                          <Check className="w-3 h-3" />
+                          {editingRegions.some((region) => region.role !== 'ignore') ? 'Recognize regions' : 'Recognize whole page'}
+                        </button>
+                      </div>
+                    ) : !isLoading && image && (
+                      <div className="absolute top-3 right-3 z-[5] flex items-center gap-2">
+                        {ocrSource && (
+                          <button
+                            onClick={() => {
+                              setShowOriginal(false);
+                              setEditingRegions(regions);
+                            }}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                            title="Draw rectangles around the title, verses and choruses to recognize only those"
+                          >
+                            <SquareDashed className="w-3 h-3" />
+                            Regions{regions.length > 0 && ` (${regions.length})`}
+                          </button>
+                        )}
+                        {usePreprocessing && (
+                          <button
+                            onClick={() => setEditingCorners(perspectiveQuad ?? DEFAULT_QUAD)}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                            title="Drag the page corners to correct a photo taken at an angle"
+                          >
+                            <Crop className="w-3 h-3" />
+                            Corners
+                          </button>
+                        )}
+                        {processedUrl && (
+                          <button
+                            onClick={() => setShowOriginal(!showOriginal)}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                            title="Switch between the uploaded image and what the OCR engine saw"
+                          >
+                            <Eye className="w-3 h-3" />
+                            {showOriginal ? 'Original' : 'Enhanced'}
+                          </button>
+                        )}
+                        {ocrWords.length > 0 && status === 'completed' && (
+                          <button
+                            onClick={() => setOverlayLevel(overlayLevel === 'words' ? 'lines' : overlayLevel === 'lines' ? 'off' : 'words')}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-900 shadow-sm"
+                            title="Show recognized word or line boxes; click a box to select its text"
+                          >
+                            <BoxSelect className="w-3 h-3" />
+                            Boxes: {overlayLevel === 'words' ? 'Words' : overlayLevel === 'lines' ? 'Lines' : 'Off'}
+                          </button>
+                        )}
+                      </div>
+                    )}
 
                     {/* Loading Overlay */}
                     {isLoading && (
@@ -205,15 +1044,23 @@ export default function Home() {
                           <div className="absolute inset-0 rounded-full border-4 border-slate-200 dark:border-slate-800"></div>
                           <div className="absolute inset-0 rounded-full border-4 border-indigo-500 border-t-transparent animate-spin"></div>
                           <div className="w-16 h-16 flex items-center justify-center font-bold text-indigo-600">
-                            {Math.round(progress * 100)}%
+                            {Math.round((enhanceProgress?.progress ?? progress) * 100)}%
                           </div>
                         </div>
                         <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 animate-pulse">
-                          {statusMessage || 'Processing...'}
+                          {enhanceProgress ? ENHANCE_STAGE_LABELS[enhanceProgress.stage] : statusMessage || 'Processing...'}
                         </h3>
                         <p className="text-sm text-slate-500 mt-2 max-w-xs">
-                          Running neural network models on your device...
+                          {enhanceProgress ? 'Cleaning up the image in the background...' : 'Running neural network models on your device...'}
                         </p>
+                        {!enhanceProgress && (
+                          <button
+                            onClick={cancelOCR}
+                            className="mt-4 text-sm px-4 py-2 bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-lg transition-colors flex items-center gap-2"
+                          >
+                            <X className="w-4 h-4" /> Cancel
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
@@ -221,13 +1068,24 @@ export default function Home() {
                   <div className="mt-4 flex justify-between items-center">
                     <button
                       onClick={handleClear}
-                      disabled={isLoading}
-                      className="text-sm px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                      className="text-sm px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition-colors flex items-center gap-2"
                     >
                       <Trash2 className="w-4 h-4" /> Reset
                     </button>
 
-                    {confidence > 0 && !isLoading && (
+                    {status === 'cancelled' && image && (
+                      <div className="flex items-center gap-3 text-sm">
+                        <span className="text-slate-400">OCR cancelled</span>
+                        <button
+                          onClick={() => processImage(image, perspectiveQuad, regions, historyId)}
+                          className="px-3 py-1.5 rounded-lg text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 flex items-center gap-1"
+                        >
+                          <RotateCcw className="w-4 h-4" /> Run again
+                        </button>
+                      </div>
+                    )}
+
+                    {confidence > 0 && status === 'completed' && (
                       <div className="flex items-center gap-2 text-sm">
                         <span className="text-slate-400">Confidence:</span>
                         <span className={`font-bold ${confidence > 80 ? 'text-green-600' : 'text-amber-600'}`}>
@@ -251,31 +1109,50 @@ export default function Home() {
                 </h2>
                 <div className="flex gap-2">
                   <button
-                    onClick={handleDownload}
+                    onClick={() => setSpellCheck(!spellCheck)}
+                    disabled={!dictionary}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${spellCheck ? 'bg-red-50 text-red-600 dark:bg-red-900/30 dark:text-red-300' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                    title={spellCheck ? `Spell-check on: ${misspellings.length} unknown words. Right-click a word for suggestions` : 'Spell-check off'}
+                  >
+                    <SpellCheck className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setShowStructure(!showStructure)}
                     disabled={!editableText}
-                    className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-500 disabled:opacity-50"
-                    title="Download .txt"
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${showStructure ? 'bg-violet-50 text-violet-600 dark:bg-violet-900/30 dark:text-violet-300' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                    title="Song structure: title, verses and chorus"
                   >
-                    <Download className="w-5 h-5" />
+                    <ListTree className="w-5 h-5" />
                   </button>
+                  <ExportMenu
+                    disabled={!editableText}
+                    hasLayout={ocrWords.length > 0}
+                    onExport={handleDownload}
+                  />
                   <button
-                    onClick={handleSaveToServer}
+                    onClick={() => handleSaveToServer()}
                     disabled={!editableText || isSaving}
                     className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all
                         ${saveStatus === 'success'
                         ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400'
-                        : saveStatus === 'error'
-                          ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
-                          : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-500/20 disabled:opacity-50 disabled:shadow-none'}`}
+                        : saveStatus === 'queued' || saveStatus === 'partial'
+                          ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                          : saveStatus === 'error'
+                            ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                            : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-500/20 disabled:opacity-50 disabled:shadow-none'}`}
                   >
                     {isSaving ? (
                       <Loader2 className="w-4 h-4 animate-spin" />
                     ) : saveStatus === 'success' ? (
                       <Check className="w-4 h-4" />
+                    ) : saveStatus === 'queued' ? (
+                      <CloudOff className="w-4 h-4" />
+                    ) : saveStatus === 'partial' ? (
+                      <AlertTriangle className="w-4 h-4" />
                     ) : (
                       <Sparkles className="w-4 h-4" />
                     )}
-                    {isSaving ? 'Saving...' : saveStatus === 'success' ? 'Saved' : saveStatus === 'error' ? 'Failed' : 'Save to Server'}
+                    {isSaving ? 'Saving...' : saveStatus === 'success' ? 'Saved' : saveStatus === 'queued' ? 'Queued' : saveStatus === 'partial' ? 'Partly saved' : saveStatus === 'error' ? 'Failed' : 'Save to Server'}
                   </button>
                   <button
                     onClick={handleCopy}
@@ -291,16 +1168,97 @@ export default function Home() {
                 </div>
               </div>
 
+              {saveStatus !== 'idle' && destinations.length > 0 && (
+                <div className="mb-4">
+                  <DeliveryStatus destinations={destinations} />
+                </div>
+              )}
+
+              {ocrWords.length > 0 && status === 'completed' && (
+                <div className="mb-4 flex items-center justify-between gap-4 text-sm">
+                  <label className="flex items-center gap-2 text-slate-500">
+                    Highlight below
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={confidenceThreshold}
+                      onChange={(e) => setConfidenceThreshold(Number(e.target.value))}
+                      className="w-28 accent-amber-500"
+                    />
+                    <span className="w-10 font-mono text-slate-700 dark:text-slate-300">{confidenceThreshold}%</span>
+                  </label>
+                  <button
+                    onClick={() => {
+                      setReviewIndex(0);
+                      setReviewMode(!reviewMode);
+                    }}
+                    disabled={!reviewMode && lowConfidenceWords.length === 0}
+                    className={`text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border transition-all disabled:opacity-50 ${reviewMode ? 'bg-amber-50 border-amber-200 text-amber-700 dark:bg-amber-900/30 dark:border-amber-800 dark:text-amber-300' : 'bg-transparent border-slate-200 text-slate-500 hover:bg-slate-50 dark:border-slate-700'}`}
+                  >
+                    <ListChecks className="w-3 h-3" />
+                    Review {lowConfidenceWords.length} {lowConfidenceWords.length === 1 ? 'word' : 'words'}
+                  </button>
+                </div>
+              )}
+
+              {reviewMode && ocrSource && (
+                <ReviewPanel
+                  words={lowConfidenceWords}
+                  index={activeReviewIndex}
+                  imageSrc={ocrSource}
+                  onIndexChange={setReviewIndex}
+                  onReplace={handleReplaceWord}
+                  onKeep={markReviewed}
+                  onClose={() => setReviewMode(false)}
+                />
+              )}
+
+              {showCorrections && ocrText && !isLoading && (
+                <CorrectionReview
+                  text={ocrText}
+                  corrections={corrections}
+                  rejected={rejectedCorrections}
+                  onToggle={toggleCorrection}
+                  onSetAll={(accepted) => setRejectedCorrections(accepted ? new Set() : new Set(corrections.map((c) => c.id)))}
+                  onApply={handleApplyCorrections}
+                  onDismiss={() => setCorrectionsResolved(true)}
+                />
+              )}
+
+              {showStructure && editableText && (
+                <LyricsEditor
+                  lyrics={lyrics}
+                  isDetected={!lyricsOverride}
+                  onChange={setLyricsOverride}
+                  onRedetect={() => setLyricsOverride(null)}
+                  onClose={() => setShowStructure(false)}
+                />
+              )}
+
               <div className="relative flex-1">
-                <textarea
+                <ResultEditor
                   value={editableText}
-                  onChange={(e) => setEditableText(e.target.value)}
-                  placeholder={isLoading ? "Analyzing document structure and extracting text..." : "Upload an image to see results here."}
-                  className="absolute inset-0 w-full h-full p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-black/20 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none resize-none font-sans text-lg leading-relaxed text-slate-800 dark:text-slate-200"
-                  spellCheck={false}
-                  dir="auto" // Auto direction for RTL/LTR support (Amharic handles it well usually, but clean to have)
+                  onChange={setEditableText}
+                  placeholder={isLoading || batch.isRunning ? "Analyzing document structure and extracting text..." : "Upload an image to see results here."}
+                  highlights={highlights}
+                  activeRange={activeReviewWord?.range}
+                  textareaRef={textareaRef}
+                  onCaretChange={setCaret}
+                  misspellings={misspellings}
+                  getSuggestions={(word) => (dictionary ? suggestSpellings(word, dictionary) : [])}
+                  onAddWord={addWord}
+                  onIgnoreWord={(word) => setIgnoredWords((prev) => new Set(prev).add(word))}
+                  transliterate={transliterate}
                 />
               </div>
+
+              <FidelKeyboard
+                onInsert={handleInsertText}
+                transliterate={transliterate}
+                onTransliterateChange={setTransliterate}
+              />
             </div>
           </div>
 
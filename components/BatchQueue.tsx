@@ -0,0 +1,109 @@
+import { CheckCircle2, Clock, Loader2, RotateCcw, X, XCircle } from 'lucide-react';
+import { BatchItem, MAX_BATCH_CONCURRENCY } from '@/hooks/useBatchOCR';
+
+interface BatchQueueProps {
+    items: BatchItem[];
+    concurrency: number;
+    onConcurrencyChange: (value: number) => void;
+    onRetry: (id: string) => void;
+    onRetryFailed: () => void;
+    onRemove: (id: string) => void;
+}
+
+function StatusIcon({ status }: { status: BatchItem['status'] }) {
+    switch (status) {
+        case 'completed':
+            return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
+        case 'error':
+            return <XCircle className="w-4 h-4 text-red-500" />;
+        case 'processing':
+            return <Loader2 className="w-4 h-4 text-indigo-500 animate-spin" />;
+        default:
+            return <Clock className="w-4 h-4 text-slate-400" />;
+    }
+}
+
+export function BatchQueue({ items, concurrency, onConcurrencyChange, onRetry, onRetryFailed, onRemove }: BatchQueueProps) {
+    const done = items.filter((item) => item.status === 'completed').length;
+    const failed = items.filter((item) => item.status === 'error').length;
+
+    return (
+        <div className="flex-1 flex flex-col min-h-[400px]">
+            <div className="flex items-center justify-between mb-3 text-sm">
+                <span className="font-medium text-slate-600 dark:text-slate-300">
+                    {done} / {items.length} pages done
+                    {failed > 0 && <span className="text-red-500"> • {failed} failed</span>}
+                </span>
+                <div className="flex items-center gap-3">
+                    {failed > 0 && (
+                        <button
+                            onClick={onRetryFailed}
+                            className="text-xs flex items-center gap-1 px-3 py-1.5 rounded-full border border-red-200 text-red-600 hover:bg-red-50 dark:border-red-900 dark:hover:bg-red-900/20 transition-colors"
+                        >
+                            <RotateCcw className="w-3 h-3" /> Retry failed
+                        </button>
+                    )}
+                    <label className="flex items-center gap-1 text-xs text-slate-500">
+                        Parallel
+                        <select
+                            value={concurrency}
+                            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+                            className="px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 bg-transparent"
+                        >
+                            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                                <option key={n} value={n}>{n}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+
+            <ol className="flex-1 overflow-y-auto max-h-[500px] space-y-2 pr-1">
+                {items.map((item, index) => (
+                    <li
+                        key={item.id}
+                        className="flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-black/20"
+                    >
+                        <span className="w-6 text-xs font-mono text-slate-400 text-right">{index + 1}</span>
+                        <StatusIcon status={item.status} />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate" title={item.file.name}>{item.file.name}</p>
+                            {item.status === 'processing' && (
+                                <div className="mt-1 h-1.5 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+                                    <div
+                                        className="h-full bg-indigo-500 transition-all"
+                                        style={{ width: `${Math.round(item.progress * 100)}%` }}
+                                    />
+                                </div>
+                            )}
+                            {item.status === 'error' && (
+                                <p className="text-xs text-red-500 truncate">{item.error}</p>
+                            )}
+                        </div>
+                        {item.status === 'completed' && (
+                            <span className={`text-xs font-bold ${item.confidence > 80 ? 'text-green-600' : 'text-amber-600'}`}>
+                                {item.confidence.toFixed(1)}%
+                            </span>
+                        )}
+                        {item.status === 'error' && (
+                            <button
+                                onClick={() => onRetry(item.id)}
+                                className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800"
+                                title="Retry this page"
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => onRemove(item.id)}
+                            className="p-1 rounded-md text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800"
+                            title={item.status === 'processing' ? 'Cancel and remove from batch' : 'Remove from batch'}
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
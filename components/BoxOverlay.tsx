@@ -0,0 +1,55 @@
+import type { Bbox } from 'tesseract.js';
+
+export interface OverlayBox {
+    id: number;
+    bbox: Bbox;
+    active?: boolean;
+    title?: string;
+}
+
+interface BoxOverlayProps {
+    src: string;
+    alt: string;
+    // Pixel size of the image the boxes were recognized on. Boxes are placed in
+    // percentages of it, so they line up with any preview of the same aspect ratio
+    // (the original as well as the upscaled, preprocessed version).
+    sourceSize: { width: number; height: number } | null;
+    boxes: OverlayBox[];
+    onBoxClick?: (id: number) => void;
+}
+
+export function BoxOverlay({ src, alt, sourceSize, boxes, onBoxClick }: BoxOverlayProps) {
+    return (
+        <div className="relative max-w-full">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+                src={src}
+                alt={alt}
+                className="block max-w-full max-h-[500px] object-contain shadow-lg"
+            />
+
+            {sourceSize && (
+                <div className="absolute inset-0">
+                    {boxes.map((box) => (
+                        <button
+                            key={box.id}
+                            type="button"
+                            title={box.title}
+                            onClick={() => onBoxClick?.(box.id)}
+                            className={`absolute rounded-sm border transition-colors
+                ${box.active
+                                    ? 'border-indigo-500 bg-indigo-500/25 ring-2 ring-indigo-500/40 z-10'
+                                    : 'border-sky-400/60 bg-sky-400/5 hover:bg-sky-400/20'}`}
+                            style={{
+                                left: `${(box.bbox.x0 / sourceSize.width) * 100}%`,
+                                top: `${(box.bbox.y0 / sourceSize.height) * 100}%`,
+                                width: `${((box.bbox.x1 - box.bbox.x0) / sourceSize.width) * 100}%`,
+                                height: `${((box.bbox.y1 - box.bbox.y0) / sourceSize.height) * 100}%`,
+                            }}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
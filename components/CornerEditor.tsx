@@ -0,0 +1,70 @@
+import { PointerEvent, useRef } from 'react';
+import type { Point, Quad } from '@/utils/imageProcessing';
+
+interface CornerEditorProps {
+    src: string;
+    quad: Quad;
+    onChange: (quad: Quad) => void;
+}
+
+// Start slightly inside the image so every handle is visible and grabbable
+export const DEFAULT_QUAD: Quad = [
+    { x: 0.05, y: 0.05 },
+    { x: 0.95, y: 0.05 },
+    { x: 0.95, y: 0.95 },
+    { x: 0.05, y: 0.95 },
+];
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Lets the user drag the four page corners on top of the original image.
+ * Corners are kept normalized (0..1) so they map onto the full-size image.
+ */
+export function CornerEditor({ src, quad, onChange }: CornerEditorProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const moveCorner = (index: number, e: PointerEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return;
+
+        const point: Point = {
+            x: clamp((e.clientX - rect.left) / rect.width),
+            y: clamp((e.clientY - rect.top) / rect.height),
+        };
+        const next = [...quad] as Quad;
+        next[index] = point;
+        onChange(next);
+    };
+
+    return (
+        <div ref={containerRef} className="relative max-w-full select-none touch-none">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={src} alt="Original upload" className="block max-w-full max-h-[500px] object-contain shadow-lg" draggable={false} />
+
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                <polygon
+                    points={quad.map((p) => `${p.x},${p.y}`).join(' ')}
+                    className="fill-indigo-500/15 stroke-indigo-500"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                />
+            </svg>
+
+            {quad.map((point, index) => (
+                <div
+                    key={index}
+                    title={CORNER_LABELS[index]}
+                    onPointerDown={(e) => e.currentTarget.setPointerCapture(e.pointerId)}
+                    onPointerMove={(e) => moveCorner(index, e)}
+                    onPointerUp={(e) => e.currentTarget.releasePointerCapture(e.pointerId)}
+                    className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-white border-2 border-indigo-500 shadow cursor-move z-10"
+                    style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+import { Check, Wand2, X } from 'lucide-react';
+import type { Correction, CorrectionKind } from '@/utils/amharicCorrection';
+
+interface CorrectionReviewProps {
+    text: string; // The text the corrections were computed on, for context
+    corrections: Correction[];
+    rejected: Set<string>;
+    onToggle: (id: string) => void;
+    onSetAll: (accepted: boolean) => void;
+    onApply: () => void;
+    onDismiss: () => void;
+}
+
+const KIND_LABELS: Record<CorrectionKind, string> = {
+    punctuation: 'Punctuation',
+    lookalike: 'Look-alike',
+    confusion: 'Spelling',
+};
+
+// Characters of context shown on either side of a change
+const CONTEXT = 12;
+
+// Makes whitespace-only changes visible in the diff
+const visible = (value: string) => value.replace(/ /g, '␣').replace(/\t/g, '⇥') || '∅';
+
+/**
+ * Lists the suggested post-OCR corrections as a diff; each one can be
+ * accepted or rejected before they are applied to the text.
+ */
+export function CorrectionReview({ text, corrections, rejected, onToggle, onSetAll, onApply, onDismiss }: CorrectionReviewProps) {
+    const acceptedCount = corrections.filter((correction) => !rejected.has(correction.id)).length;
+
+    return (
+        <div className="mb-4 p-4 rounded-xl border border-sky-200 dark:border-sky-900 bg-sky-50/50 dark:bg-sky-900/10">
+            <div className="flex items-center justify-between mb-3 text-sm">
+                <span className="font-medium text-slate-600 dark:text-slate-300 flex items-center gap-2">
+                    <Wand2 className="w-4 h-4 text-sky-500" />
+                    {corrections.length} suggested {corrections.length === 1 ? 'correction' : 'corrections'}
+                </span>
+                <div className="flex items-center gap-1 text-xs">
+                    <button onClick={() => onSetAll(true)} className="px-2 py-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800">
+                        Accept all
+                    </button>
+                    <button onClick={() => onSetAll(false)} className="px-2 py-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800">
+                        Reject all
+                    </button>
+                    <button onClick={onDismiss} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Keep the text as recognized">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+                {corrections.map((correction) => {
+                    const accepted = !rejected.has(correction.id);
+                    return (
+                        <li key={correction.id}>
+                            <label className={`flex items-center gap-3 px-2 py-1 rounded-md cursor-pointer hover:bg-white dark:hover:bg-slate-900 ${accepted ? '' : 'opacity-50'}`}>
+                                <input type="checkbox" checked={accepted} onChange={() => onToggle(correction.id)} className="accent-sky-500" />
+                                <span className="flex-1 min-w-0 truncate" dir="auto">
+                                    <span className="text-slate-400">{text.slice(Math.max(0, correction.start - CONTEXT), correction.start)}</span>
+                                    <del className="text-red-600 bg-red-50 dark:bg-red-900/30">{visible(correction.original)}</del>
+                                    <ins className="no-underline text-emerald-700 bg-emerald-50 dark:text-emerald-400 dark:bg-emerald-900/30">{visible(correction.replacement)}</ins>
+                                    <span className="text-slate-400">{text.slice(correction.end, correction.end + CONTEXT)}</span>
+                                </span>
+                                <span className="shrink-0 text-xs text-slate-400" title={correction.reason}>
+                                    {KIND_LABELS[correction.kind]}
+                                </span>
+                            </label>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <button
+                onClick={onApply}
+                disabled={acceptedCount === 0}
+                className="mt-3 w-full text-sm px-4 py-2 bg-sky-600 text-white hover:bg-sky-700 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+                <Check className="w-4 h-4" /> Apply {acceptedCount} {acceptedCount === 1 ? 'correction' : 'corrections'}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,37 @@
+import { Check, Clock, X } from 'lucide-react';
+import type { DestinationResult } from '@/utils/server/uploadDelivery';
+
+interface DeliveryStatusProps {
+    destinations: DestinationResult[];
+}
+
+const STATUS_STYLES: Record<DestinationResult['status'], { icon: typeof Check; label: string; className: string }> = {
+    delivered: { icon: Check, label: 'Saved', className: 'text-emerald-600 dark:text-emerald-400' },
+    queued: { icon: Clock, label: 'Will retry', className: 'text-amber-600 dark:text-amber-400' },
+    failed: { icon: X, label: 'Failed', className: 'text-red-600 dark:text-red-400' },
+};
+
+/**
+ * One line per upload destination, so a partial save shows where it went.
+ */
+export function DeliveryStatus({ destinations }: DeliveryStatusProps) {
+    return (
+        <ul className="flex flex-wrap justify-end gap-x-4 gap-y-1 text-xs">
+            {destinations.map((destination) => {
+                const { icon: Icon, label, className } = STATUS_STYLES[destination.status];
+                return (
+                    <li
+                        key={destination.id}
+                        className={`flex items-center gap-1 ${className}`}
+                        title={destination.error}
+                    >
+                        <Icon className="w-3.5 h-3.5" />
+                        <span className="font-medium">{destination.id}</span>
+                        <span className="text-slate-500">({destination.type})</span>
+                        {label}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
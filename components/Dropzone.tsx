@@ -4,22 +4,26 @@ import { Upload, FileType, AlertCircle } from 'lucide-react';
 
 interface DropzoneProps {
     onFileAccepted: (file: File) => void;
+    onFilesAccepted?: (files: File[]) => void; // Enables batch mode when several pages are dropped
     isLoading: boolean;
 }
 
-export function Dropzone({ onFileAccepted, isLoading }: DropzoneProps) {
+export function Dropzone({ onFileAccepted, onFilesAccepted, isLoading }: DropzoneProps) {
     const onDrop = useCallback((acceptedFiles: File[]) => {
-        if (acceptedFiles.length > 0) {
+        if (acceptedFiles.length > 1 && onFilesAccepted) {
+            onFilesAccepted(acceptedFiles);
+        } else if (acceptedFiles.length > 0) {
             onFileAccepted(acceptedFiles[0]);
         }
-    }, [onFileAccepted]);
+    }, [onFileAccepted, onFilesAccepted]);
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
         accept: {
             'image/*': ['.png', '.jpg', '.jpeg', '.bmp', '.webp'],
+            'application/pdf': ['.pdf'],
         },
-        maxFiles: 1,
+        maxFiles: onFilesAccepted ? 0 : 1, // 0 = unlimited
         disabled: isLoading
     });
 
@@ -45,7 +49,8 @@ export function Dropzone({ onFileAccepted, isLoading }: DropzoneProps) {
                         {isDragActive ? "Drop to analyze" : "Click to upload or drag & drop"}
                     </p>
                     <p className="text-sm text-slate-500 dark:text-slate-400 font-medium">
-                        Optimized for Amharic Documents • Images (PNG, JPG)
+                        Optimized for Amharic Documents • Images (PNG, JPG) & PDF
+                        {onFilesAccepted && ' • Drop several pages for batch mode'}
                     </p>
                 </div>
             </div>
@@ -0,0 +1,63 @@
+import { Copy, X } from 'lucide-react';
+import { DuplicateAction, DuplicateMatch, formatDuplicateMessage } from '@/utils/lyricsFingerprint';
+
+interface DuplicateDialogProps {
+    match: DuplicateMatch;
+    onResolve: (action: DuplicateAction) => void;
+    onClose: () => void;
+}
+
+const ACTIONS: { action: DuplicateAction; label: string; description: string }[] = [
+    { action: 'merge', label: 'Merge', description: 'Add this scan to the earlier upload' },
+    { action: 'overwrite', label: 'Overwrite', description: 'Replace the earlier upload with this scan' },
+    { action: 'upload', label: 'Upload anyway', description: 'Keep both as separate songs' },
+];
+
+/**
+ * Shown when the server finds the lyrics close to an earlier upload; nothing
+ * has been saved yet, and the chosen action is sent with the next attempt.
+ */
+export function DuplicateDialog({ match, onResolve, onClose }: DuplicateDialogProps) {
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative w-full max-w-sm p-6 space-y-4 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-2xl">
+                <div className="flex items-center justify-between">
+                    <h2 className="font-semibold flex items-center gap-2">
+                        <Copy className="w-5 h-5 text-amber-500" />
+                        Already uploaded?
+                    </h2>
+                    <button type="button" onClick={onClose} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="text-sm space-y-1">
+                    <p>{formatDuplicateMessage(match)}</p>
+                    <p className="text-slate-500">
+                        Uploaded by {match.uploadedBy} on {new Date(match.uploadedAt).toLocaleDateString()}
+                    </p>
+                </div>
+                <div className="space-y-2">
+                    {ACTIONS.map(({ action, label, description }) => (
+                        <button
+                            key={action}
+                            type="button"
+                            onClick={() => onResolve(action)}
+                            className="w-full text-left px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+                        >
+                            <span className="block text-sm font-medium">{label}</span>
+                            <span className="block text-xs text-slate-500">{description}</span>
+                        </button>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="w-full px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,133 @@
+import { ReactNode } from 'react';
+import { Play, RotateCcw, X } from 'lucide-react';
+import { DEFAULT_ENGINE_OPTIONS, EngineOptions, ETHIOPIC_CHARACTERS, OEM_OPTIONS, PSM_OPTIONS, sameEngineOptions } from '@/utils/engineOptions';
+
+interface EngineSettingsProps {
+    options: EngineOptions;
+    onOptionChange: <K extends keyof EngineOptions>(key: K, value: EngineOptions[K]) => void;
+    onReset: () => void;
+    onRerun?: () => void;
+    onClose: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm';
+
+function Field({ label, hint, children }: { label: string; hint: string; children: ReactNode }) {
+    return (
+        <label className="block space-y-1">
+            <span className="block text-xs font-medium text-slate-600 dark:text-slate-300">{label}</span>
+            {children}
+            <span className="block text-[11px] leading-snug text-slate-400">{hint}</span>
+        </label>
+    );
+}
+
+/**
+ * Advanced Tesseract settings. Every setting carries a one-line explanation,
+ * since most users will never have seen Tesseract's own parameter names.
+ */
+export function EngineSettings({ options, onOptionChange, onReset, onRerun, onClose }: EngineSettingsProps) {
+    const psm = PSM_OPTIONS.find((option) => option.value === options.psm);
+    const oem = OEM_OPTIONS.find((option) => option.value === options.oem);
+    const ethiopicOnly = options.whitelist === ETHIOPIC_CHARACTERS;
+
+    return (
+        <div className="mb-6 p-4 rounded-xl border border-violet-200 dark:border-violet-900 bg-violet-50/30 dark:bg-violet-900/10 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200">Advanced OCR settings</h3>
+                <button onClick={onClose} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Close settings">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                <Field label="Page segmentation" hint={psm?.hint ?? 'How Tesseract splits the page into blocks and lines.'}>
+                    <select value={options.psm} onChange={(e) => onOptionChange('psm', e.target.value as EngineOptions['psm'])} className={inputClassName}>
+                        {PSM_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </Field>
+                <Field label="Engine" hint={oem?.hint ?? 'Which recognition engine Tesseract runs.'}>
+                    <select value={options.oem} onChange={(e) => onOptionChange('oem', Number(e.target.value) as EngineOptions['oem'])} className={inputClassName}>
+                        {OEM_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </Field>
+
+                <Field
+                    label="Allowed characters"
+                    hint={ethiopicOnly ? 'Only Ethiopic syllables, punctuation and numerals can be recognized.' : 'Only these characters can be recognized. Leave empty to allow everything.'}
+                >
+                    <div className="flex gap-2">
+                        <input
+                            value={ethiopicOnly ? '' : options.whitelist}
+                            placeholder={ethiopicOnly ? 'Ethiopic only' : 'Any'}
+                            onChange={(e) => onOptionChange('whitelist', e.target.value)}
+                            className={inputClassName}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => onOptionChange('whitelist', ethiopicOnly ? '' : ETHIOPIC_CHARACTERS)}
+                            className={`shrink-0 px-2 rounded-md border text-xs ${ethiopicOnly ? 'bg-violet-100 border-violet-300 text-violet-700 dark:bg-violet-900/40 dark:border-violet-800 dark:text-violet-300' : 'border-slate-200 text-slate-500 dark:border-slate-700'}`}
+                            title="Limit output to the Ethiopic block (U+1200–U+137F)"
+                        >
+                            ፊደል only
+                        </button>
+                    </div>
+                </Field>
+                <Field label="Blocked characters" hint="These characters are never output, e.g. stray | or ~ from page borders.">
+                    <input value={options.blacklist} onChange={(e) => onOptionChange('blacklist', e.target.value)} className={inputClassName} />
+                </Field>
+
+                <Field label="User words" hint="One per line. Names and rare words Tesseract should prefer when unsure.">
+                    <textarea
+                        value={options.userWords}
+                        onChange={(e) => onOptionChange('userWords', e.target.value)}
+                        rows={3}
+                        className={`${inputClassName} font-mono`}
+                    />
+                </Field>
+                <Field label="User patterns" hint="One per line, e.g. \d\d:\d\d for verse numbers. Mostly used by the legacy engine.">
+                    <textarea
+                        value={options.userPatterns}
+                        onChange={(e) => onOptionChange('userPatterns', e.target.value)}
+                        rows={3}
+                        className={`${inputClassName} font-mono`}
+                    />
+                </Field>
+
+                <label className="flex items-start gap-2 sm:col-span-2">
+                    <input
+                        type="checkbox"
+                        checked={options.preserveInterwordSpaces}
+                        onChange={(e) => onOptionChange('preserveInterwordSpaces', e.target.checked)}
+                        className="mt-0.5 accent-violet-500"
+                    />
+                    <span>
+                        <span className="block text-xs font-medium text-slate-600 dark:text-slate-300">Preserve spacing</span>
+                        <span className="block text-[11px] leading-snug text-slate-400">Keeps runs of spaces between words instead of collapsing them, so aligned columns stay aligned.</span>
+                    </span>
+                </label>
+            </div>
+
+            <button
+                onClick={onReset}
+                disabled={sameEngineOptions(options, DEFAULT_ENGINE_OPTIONS)}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 disabled:opacity-40"
+            >
+                <RotateCcw className="w-3 h-3" /> Reset to defaults
+            </button>
+
+            {onRerun && (
+                <button
+                    onClick={onRerun}
+                    className="w-full text-sm px-4 py-2 bg-violet-600 text-white hover:bg-violet-700 rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                    <Play className="w-4 h-4" /> Apply and re-run OCR
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Play, Save, Trash2, X } from 'lucide-react';
+import { preprocessImage, PreprocessOptions } from '@/utils/imageProcessing';
+import type { PreprocessPreset } from '@/utils/preprocessPresets';
+
+interface EnhanceSettingsProps {
+    options: Required<PreprocessOptions>;
+    onOptionChange: <K extends keyof PreprocessOptions>(key: K, value: Required<PreprocessOptions>[K]) => void;
+    presets: PreprocessPreset[];
+    activePreset?: PreprocessPreset;
+    onApplyPreset: (preset: PreprocessPreset) => void;
+    onSavePreset: (name: string) => void;
+    onDeletePreset: (name: string) => void;
+    image: File | null; // Used for the live before/after preview
+    onRerun?: () => void;
+    onClose: () => void;
+}
+
+const UPSCALE_FACTORS = [1, 1.5, 2, 3];
+
+// Re-running the whole pipeline on every slider tick would freeze the page
+const PREVIEW_DEBOUNCE_MS = 400;
+
+function Slider({ label, hint, value, min, max, step, onChange }: {
+    label: string;
+    hint: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    onChange: (value: number) => void;
+}) {
+    return (
+        <label className="block" title={hint}>
+            <span className="flex justify-between text-xs text-slate-500">
+                {label}
+                <span className="font-mono text-slate-700 dark:text-slate-300">{value}</span>
+            </span>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="w-full accent-emerald-500"
+            />
+        </label>
+    );
+}
+
+export function EnhanceSettings({
+    options,
+    onOptionChange,
+    presets,
+    activePreset,
+    onApplyPreset,
+    onSavePreset,
+    onDeletePreset,
+    image,
+    onRerun,
+    onClose,
+}: EnhanceSettingsProps) {
+    const [presetName, setPresetName] = useState('');
+    const [after, setAfter] = useState<{ url: string; options: Required<PreprocessOptions> } | null>(null);
+
+    const beforeUrl = useMemo(() => (image ? URL.createObjectURL(image) : null), [image]);
+
+    useEffect(() => () => {
+        if (beforeUrl) URL.revokeObjectURL(beforeUrl);
+    }, [beforeUrl]);
+
+    useEffect(() => {
+        if (!image) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            preprocessImage(image, options)
+                .then((url) => {
+                    if (!cancelled) setAfter({ url, options });
+                })
+                .catch((e) => console.error('Preview preprocessing failed', e));
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [image, options]);
+
+    const isBuiltInName = presets.some((preset) => preset.builtIn && preset.name === presetName.trim());
+    const previewStale = after?.options !== options;
+
+    return (
+        <div className="mb-6 p-4 rounded-xl border border-emerald-200 dark:border-emerald-900 bg-emerald-50/30 dark:bg-emerald-900/10 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200">Enhance settings</h3>
+                <button onClick={onClose} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Close settings">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {/* Presets */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                    value={activePreset?.name ?? ''}
+                    onChange={(e) => {
+                        const preset = presets.find((p) => p.name === e.target.value);
+                        if (preset) onApplyPreset(preset);
+                    }}
+                    className="px-2 py-1.5 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+                >
+                    {!activePreset && <option value="">Custom</option>}
+                    {presets.map((preset) => (
+                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                    ))}
+                </select>
+                {activePreset && !activePreset.builtIn && (
+                    <button
+                        onClick={() => onDeletePreset(activePreset.name)}
+                        className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800"
+                        title={`Delete preset "${activePreset.name}"`}
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                )}
+                <form
+                    className="flex items-center gap-2 ml-auto"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        onSavePreset(presetName);
+                        setPresetName('');
+                    }}
+                >
+                    <input
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Preset name"
+                        className="w-36 px-2 py-1.5 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!presetName.trim() || isBuiltInName}
+                        className="p-1.5 rounded-md text-emerald-700 hover:bg-emerald-100 dark:text-emerald-400 dark:hover:bg-emerald-900/30 disabled:opacity-40"
+                        title={isBuiltInName ? 'Built-in presets cannot be overwritten' : 'Save current settings as a preset'}
+                    >
+                        <Save className="w-4 h-4" />
+                    </button>
+                </form>
+            </div>
+
+            {/* Controls */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                <Slider
+                    label="Window size"
+                    hint="Neighbourhood used for the local threshold. Larger windows ignore bigger shadows and stains."
+                    value={options.windowSize}
+                    min={11}
+                    max={101}
+                    step={2}
+                    onChange={(value) => onOptionChange('windowSize', value)}
+                />
+                <Slider
+                    label="Constant C"
+                    hint="How much darker than its surroundings a pixel must be to count as ink. Lower keeps faint strokes."
+                    value={options.constant}
+                    min={0}
+                    max={40}
+                    step={1}
+                    onChange={(value) => onOptionChange('constant', value)}
+                />
+                <label className="flex items-center justify-between text-xs text-slate-500">
+                    Upscale
+                    <select
+                        value={options.upscale ? options.upscaleFactor : 1}
+                        onChange={(e) => {
+                            const factor = Number(e.target.value);
+                            onOptionChange('upscale', factor > 1);
+                            if (factor > 1) onOptionChange('upscaleFactor', factor);
+                        }}
+                        className="px-2 py-1 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+                    >
+                        {UPSCALE_FACTORS.map((factor) => (
+                            <option key={factor} value={factor}>{factor === 1 ? 'Off' : `${factor}x`}</option>
+                        ))}
+                    </select>
+                </label>
+                <div className="flex items-center gap-4 text-xs text-slate-500">
+                    <label className="flex items-center gap-1" title="3x3 median filter against speckles and scanner dust.">
+                        <input type="checkbox" checked={options.denoise} onChange={(e) => onOptionChange('denoise', e.target.checked)} />
+                        Median denoise
+                    </label>
+                    <label className="flex items-center gap-1" title="Detects the angle of the text lines and rotates the page level. Helps with phone photos.">
+                        <input type="checkbox" checked={options.deskew} onChange={(e) => onOptionChange('deskew', e.target.checked)} />
+                        Auto deskew
+                    </label>
+                    <label className="flex items-center gap-1" title="For light text on a dark background">
+                        <input type="checkbox" checked={options.invert} onChange={(e) => onOptionChange('invert', e.target.checked)} />
+                        Invert
+                    </label>
+                </div>
+            </div>
+
+            {/* Live before / after */}
+            {image ? (
+                <div className="grid grid-cols-2 gap-3">
+                    {[
+                        { label: 'Before', url: beforeUrl },
+                        { label: 'After', url: after?.url ?? null },
+                    ].map(({ label, url }) => (
+                        <figure key={label} className="relative rounded-lg border border-slate-200 dark:border-slate-800 bg-white overflow-hidden h-40 flex items-center justify-center">
+                            {url ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={url} alt={`${label} enhancement`} className="max-w-full max-h-full object-contain" />
+                            ) : (
+                                <Loader2 className="w-4 h-4 animate-spin text-slate-300" />
+                            )}
+                            <figcaption className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded bg-black/60 text-white flex items-center gap-1">
+                                {label}
+                                {label === 'After' && previewStale && <Loader2 className="w-2.5 h-2.5 animate-spin" />}
+                            </figcaption>
+                        </figure>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-xs text-slate-400">Upload an image to see a live before/after preview.</p>
+            )}
+
+            {image && onRerun && (
+                <button
+                    onClick={onRerun}
+                    className="w-full text-sm px-4 py-2 bg-emerald-600 text-white hover:bg-emerald-700 rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                    <Play className="w-4 h-4" /> Apply and re-run OCR
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '@/utils/exportFormats';
+
+interface ExportMenuProps {
+    disabled?: boolean;
+    hasLayout: boolean; // Word boxes are available for hOCR/ALTO
+    onExport: (format: ExportFormat) => void;
+}
+
+/**
+ * Download button with a dropdown of export formats.
+ */
+export function ExportMenu({ disabled, hasLayout, onExport }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const close = () => setIsOpen(false);
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') close();
+        };
+        window.addEventListener('pointerdown', close);
+        window.addEventListener('keydown', onKeyDown);
+        return () => {
+            window.removeEventListener('pointerdown', close);
+            window.removeEventListener('keydown', onKeyDown);
+        };
+    }, [isOpen]);
+
+    return (
+        <div className="relative" onPointerDown={(e) => e.stopPropagation()}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={disabled}
+                className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors text-slate-500 disabled:opacity-50"
+                title="Download"
+            >
+                <Download className="w-5 h-5" />
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 z-40 mt-1 min-w-48 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-xl text-sm">
+                    {EXPORT_FORMATS.map((info) => {
+                        const unavailable = info.needsLayout && !hasLayout;
+                        return (
+                            <button
+                                key={info.format}
+                                onClick={() => {
+                                    onExport(info.format);
+                                    setIsOpen(false);
+                                }}
+                                disabled={unavailable}
+                                className="w-full flex items-center justify-between gap-4 px-3 py-1.5 text-left text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent"
+                                title={unavailable ? 'Needs word boxes from a single-image scan' : undefined}
+                            >
+                                {info.label}
+                                <span className="text-xs font-mono text-slate-400">.{info.extension}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { AlertTriangle, Check, Copy, RotateCcw, Trash2, X } from 'lucide-react';
+import type { QueuedUpload } from '@/utils/uploadQueue';
+
+interface FailedUploadsProps {
+    uploads: QueuedUpload[];
+    onRetry: (upload: QueuedUpload) => void;
+    onDiscard: (id: number) => void;
+    onClose: () => void;
+}
+
+const firstLine = (text: string) => text.split('\n').map((line) => line.trim()).find(Boolean) ?? 'Untitled';
+
+/**
+ * Queued uploads the server rejected, with its reason. The lyrics stay here
+ * until they are copied out, sent again or discarded.
+ */
+export function FailedUploads({ uploads, onRetry, onDiscard, onClose }: FailedUploadsProps) {
+    const [copiedId, setCopiedId] = useState<number | null>(null);
+
+    const handleCopy = async (upload: QueuedUpload) => {
+        await navigator.clipboard.writeText(upload.payload.text);
+        setCopiedId(upload.id);
+        setTimeout(() => setCopiedId(null), 2000);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative w-full max-w-md p-6 space-y-4 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-2xl">
+                <div className="flex items-center justify-between">
+                    <h2 className="font-semibold flex items-center gap-2">
+                        <AlertTriangle className="w-5 h-5 text-red-500" />
+                        Uploads not saved
+                    </h2>
+                    <button type="button" onClick={onClose} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                {uploads.length === 0 ? (
+                    <p className="text-sm text-slate-500">Nothing left here.</p>
+                ) : (
+                    <ul className="space-y-2 max-h-80 overflow-y-auto">
+                        {uploads.map((upload) => (
+                            <li key={upload.id} className="p-3 rounded-lg border border-slate-200 dark:border-slate-700 space-y-2">
+                                <div className="text-sm">
+                                    <p className="font-medium truncate">{firstLine(upload.payload.text)}</p>
+                                    <p className="text-xs text-slate-500">
+                                        Saved {new Date(upload.queuedAt).toLocaleString()}
+                                    </p>
+                                    {upload.failed && (
+                                        <p className="text-xs text-red-600 dark:text-red-400">
+                                            {upload.failed.status}: {upload.failed.message}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleCopy(upload)}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                                    >
+                                        {copiedId === upload.id ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                                        {copiedId === upload.id ? 'Copied' : 'Copy text'}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onRetry(upload)}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                                    >
+                                        <RotateCcw className="w-3.5 h-3.5" />
+                                        Retry
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onDiscard(upload.id)}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                        Discard
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Keyboard } from 'lucide-react';
+import { AMHARIC_SERIES, LABIALIZED_SERIES } from '@/utils/fidel';
+
+interface FidelKeyboardProps {
+    onInsert: (text: string) => void;
+    transliterate: boolean;
+    onTransliterateChange: (enabled: boolean) => void;
+}
+
+const PUNCTUATION = ['፡', '።', '፣', '፤', '፥', '፦', '፧', '፨'];
+const NUMERALS = ['፩', '፪', '፫', '፬', '፭', '፮', '፯', '፰', '፱', '፲', '፳', '፻', '፼'];
+
+// Seven vowel orders, plus the labialized form where the series has one
+const FAMILIES = AMHARIC_SERIES.map((base) =>
+    Array.from({ length: LABIALIZED_SERIES.has(base) ? 8 : 7 }, (_, order) => String.fromCodePoint(base + order))
+);
+
+const KEY_CLASS = 'w-8 h-8 rounded-md text-lg leading-none hover:bg-indigo-50 hover:text-indigo-700 dark:hover:bg-indigo-900/30 dark:hover:text-indigo-300';
+
+/**
+ * Collapsible on-screen fidel palette, one row per consonant family, with a
+ * switch for typing Latin transliteration (selam -> ሰላም) straight into the editor.
+ */
+export function FidelKeyboard({ onInsert, transliterate, onTransliterateChange }: FidelKeyboardProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const renderKey = (char: string) => (
+        <button
+            key={char}
+            // Keep focus and selection in the editor
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onInsert(char)}
+            className={KEY_CLASS}
+        >
+            {char}
+        </button>
+    );
+
+    return (
+        <div className="mt-4 rounded-xl border border-slate-200 dark:border-slate-700 text-sm">
+            <div className="flex items-center justify-between gap-4 px-3 py-2">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="flex items-center gap-2 font-medium text-slate-600 dark:text-slate-300"
+                >
+                    <Keyboard className="w-4 h-4 text-indigo-500" />
+                    Fidel keyboard
+                    {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                <label className="flex items-center gap-2 text-slate-500 cursor-pointer" title="Consonant then vowel: selam → ሰላም, ^s → ሥ, `a → ዓ, lWa → ሏ, :: → ።">
+                    <input
+                        type="checkbox"
+                        checked={transliterate}
+                        onChange={(e) => onTransliterateChange(e.target.checked)}
+                        className="accent-indigo-500"
+                    />
+                    Type Latin as fidel
+                </label>
+            </div>
+
+            {isOpen && (
+                <div className="max-h-64 overflow-y-auto border-t border-slate-100 dark:border-slate-800 px-3 py-2 space-y-2">
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-x-4">
+                        {FAMILIES.map((family) => (
+                            <div key={family[0]} className="flex items-center">
+                                {family.map(renderKey)}
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center pt-2 border-t border-slate-100 dark:border-slate-800">
+                        {PUNCTUATION.map(renderKey)}
+                        <span className="mx-2 h-5 border-l border-slate-200 dark:border-slate-700" />
+                        {NUMERALS.map(renderKey)}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { HistoryIcon, RotateCcw, Search, Trash2, X } from 'lucide-react';
+import { ScanSummary, searchScans } from '@/utils/scanHistory';
+
+interface HistorySidebarProps {
+    scans: ScanSummary[];
+    activeId: string | null;
+    onOpen: (id: string) => void;
+    onRerun: (id: string) => void; // Runs OCR again with the current settings
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Slide-over list of past scans stored in this browser, with search.
+ */
+export function HistorySidebar({ scans, activeId, onOpen, onRerun, onDelete, onClose }: HistorySidebarProps) {
+    const [query, setQuery] = useState('');
+    const [confirmingId, setConfirmingId] = useState<string | null>(null);
+    const visible = searchScans(scans, query);
+
+    return (
+        <div className="fixed inset-0 z-[60] flex">
+            <aside className="w-full max-w-sm h-full flex flex-col bg-white dark:bg-slate-900 border-r border-slate-200 dark:border-slate-800 shadow-2xl">
+                <div className="flex items-center justify-between px-4 h-16 border-b border-slate-200 dark:border-slate-800">
+                    <h2 className="font-semibold flex items-center gap-2">
+                        <HistoryIcon className="w-5 h-5 text-indigo-500" />
+                        History
+                        <span className="text-xs font-normal text-slate-400">{scans.length}</span>
+                    </h2>
+                    <button onClick={onClose} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-3 border-b border-slate-100 dark:border-slate-800">
+                    <label className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm">
+                        <Search className="w-4 h-4 text-slate-400" />
+                        <input
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Search names and text"
+                            className="flex-1 bg-transparent outline-none"
+                            autoFocus
+                        />
+                    </label>
+                </div>
+
+                <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+                    {visible.length === 0 && (
+                        <li className="p-6 text-center text-sm text-slate-400">
+                            {scans.length === 0 ? 'Scans are saved here, in this browser only.' : 'No matching scans.'}
+                        </li>
+                    )}
+                    {visible.map((scan) => (
+                        <li
+                            key={scan.id}
+                            className={`group flex gap-3 p-2 rounded-lg cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50 ${scan.id === activeId ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}
+                            onClick={() => onOpen(scan.id)}
+                        >
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={scan.thumbnail} alt="" className="w-14 h-14 shrink-0 rounded-md object-cover bg-slate-100 dark:bg-slate-800" />
+                            <div className="flex-1 min-w-0 text-sm">
+                                <p className="font-medium truncate">{scan.name}</p>
+                                <p className="text-xs text-slate-400">
+                                    {formatDate(scan.createdAt)} · {scan.confidence.toFixed(0)}% · {scan.languages}
+                                </p>
+                                <p className="text-xs text-slate-500 truncate" dir="auto">{scan.editedText.split('\n').find((line) => line.trim()) ?? ''}</p>
+                            </div>
+                            <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100" onClick={(e) => e.stopPropagation()}>
+                                <button
+                                    onClick={() => onRerun(scan.id)}
+                                    className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700"
+                                    title="Run OCR again with the current settings"
+                                >
+                                    <RotateCcw className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        if (confirmingId !== scan.id) {
+                                            setConfirmingId(scan.id);
+                                            return;
+                                        }
+                                        setConfirmingId(null);
+                                        onDelete(scan.id);
+                                    }}
+                                    onBlur={() => setConfirmingId(null)}
+                                    className={`p-1 rounded-md ${confirmingId === scan.id ? 'bg-red-100 text-red-600 dark:bg-red-900/30' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                                    title={confirmingId === scan.id ? 'Click again to delete' : 'Delete'}
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </aside>
+            <div className="flex-1 bg-slate-900/30 backdrop-blur-sm" onClick={onClose} />
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+import { ArrowDown, ArrowUp, Loader2, X } from 'lucide-react';
+import { formatBytes, LanguagePack, languageLabel } from '@/utils/languagePacks';
+
+interface LanguagePickerProps {
+    packs: LanguagePack[] | null; // null while loading
+    selection: string[];          // In priority order
+    onToggle: (code: string) => void;
+    onMove: (code: string, delta: number) => void;
+    onClose: () => void;
+}
+
+/**
+ * Lists the installed .traineddata packs; selected ones are shown first, in
+ * the priority order Tesseract will use them.
+ */
+export function LanguagePicker({ packs, selection, onToggle, onMove, onClose }: LanguagePickerProps) {
+    const sizes = new Map(packs?.map((pack) => [pack.code, pack.size]));
+    const unselected = (packs ?? []).filter((pack) => !selection.includes(pack.code));
+    const totalSize = selection.reduce((sum, code) => sum + (sizes.get(code) ?? 0), 0);
+
+    return (
+        <div className="mb-6 p-4 rounded-xl border border-indigo-200 dark:border-indigo-900 bg-indigo-50/30 dark:bg-indigo-900/10 space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-slate-700 dark:text-slate-200">Languages</h3>
+                <button onClick={onClose} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Close languages">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <ol className="space-y-1">
+                {selection.map((code, index) => (
+                    <li key={code} className="flex items-center gap-2 px-2 py-1 rounded-md bg-white dark:bg-slate-900">
+                        <input
+                            type="checkbox"
+                            checked
+                            disabled={selection.length === 1}
+                            onChange={() => onToggle(code)}
+                            className="accent-indigo-500"
+                            title={selection.length === 1 ? 'At least one language is needed' : 'Remove'}
+                        />
+                        <span className="w-4 text-xs text-slate-400">{index + 1}</span>
+                        <span className="flex-1 truncate">{languageLabel(code)}</span>
+                        <span className="font-mono text-xs text-slate-400">{code}</span>
+                        <span className="w-16 text-right text-xs text-slate-400">{sizes.has(code) ? formatBytes(sizes.get(code) ?? 0) : ''}</span>
+                        <button
+                            onClick={() => onMove(code, -1)}
+                            disabled={index === 0}
+                            className="p-0.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30"
+                            title="Higher priority"
+                        >
+                            <ArrowUp className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                            onClick={() => onMove(code, 1)}
+                            disabled={index === selection.length - 1}
+                            className="p-0.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30"
+                            title="Lower priority"
+                        >
+                            <ArrowDown className="w-3.5 h-3.5" />
+                        </button>
+                    </li>
+                ))}
+            </ol>
+
+            {packs === null ? (
+                <p className="flex items-center gap-2 text-slate-400">
+                    <Loader2 className="w-4 h-4 animate-spin" /> Loading available languages...
+                </p>
+            ) : unselected.length > 0 ? (
+                <ul className="space-y-1">
+                    {unselected.map((pack) => (
+                        <li key={pack.code}>
+                            <label className="flex items-center gap-2 px-2 py-1 rounded-md cursor-pointer hover:bg-white dark:hover:bg-slate-900">
+                                <input type="checkbox" checked={false} onChange={() => onToggle(pack.code)} className="accent-indigo-500" />
+                                <span className="w-4" />
+                                <span className="flex-1 truncate text-slate-600 dark:text-slate-300">{languageLabel(pack.code)}</span>
+                                <span className="font-mono text-xs text-slate-400">{pack.code}</span>
+                                <span className="w-16 text-right text-xs text-slate-400">{formatBytes(pack.size)}</span>
+                                <span className="w-[46px]" />
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            ) : packs.length === 0 ? (
+                <p className="text-slate-400">No language list available; add .traineddata files to public/tessdata.</p>
+            ) : null}
+
+            <p className="text-xs text-slate-400">
+                Earlier languages win where several fit. {totalSize > 0 && `${formatBytes(totalSize)} to download on first use.`}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,166 @@
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { LYRICS_LIMITS, LYRICS_SECTION_KINDS, LyricsDocument, LyricsSection } from '@/utils/lyrics';
+
+interface LyricsEditorProps {
+    lyrics: LyricsDocument;
+    isDetected: boolean; // False once the user edited the structure by hand
+    onChange: (lyrics: LyricsDocument) => void;
+    onRedetect: () => void;
+    onClose: () => void;
+}
+
+const KIND_STYLES: Record<LyricsSection['kind'], string> = {
+    verse: 'border-emerald-300 dark:border-emerald-800',
+    chorus: 'border-amber-300 dark:border-amber-800',
+    bridge: 'border-violet-300 dark:border-violet-800',
+};
+
+const INPUT_CLASS = 'px-2 py-1.5 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm';
+
+/**
+ * Edits the detected song structure: title, credits and ordered sections.
+ */
+export function LyricsEditor({ lyrics, isDetected, onChange, onRedetect, onClose }: LyricsEditorProps) {
+    const updateSection = (index: number, patch: Partial<LyricsSection>) => {
+        onChange({
+            ...lyrics,
+            sections: lyrics.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+        });
+    };
+
+    const moveSection = (index: number, offset: number) => {
+        const sections = [...lyrics.sections];
+        const [section] = sections.splice(index, 1);
+        sections.splice(index + offset, 0, section);
+        onChange({ ...lyrics, sections });
+    };
+
+    const removeSection = (index: number) => {
+        onChange({ ...lyrics, sections: lyrics.sections.filter((_, i) => i !== index) });
+    };
+
+    const addSection = () => {
+        onChange({ ...lyrics, sections: [...lyrics.sections, { kind: 'verse', lines: [''], repeat: 1 }] });
+    };
+
+    return (
+        <div className="mb-4 p-4 rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/30 space-y-3">
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-slate-600 dark:text-slate-300">
+                    Song structure
+                    <span className="ml-2 text-xs font-normal text-slate-400">
+                        {isDetected ? 'Detected from the text' : 'Edited'}
+                    </span>
+                </span>
+                <div className="flex items-center gap-1">
+                    {!isDetected && (
+                        <button
+                            onClick={onRedetect}
+                            className="text-xs flex items-center gap-1 px-2 py-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800"
+                            title="Discard manual changes and detect the structure from the current text again"
+                        >
+                            <RotateCcw className="w-3 h-3" /> Re-detect
+                        </button>
+                    )}
+                    <button onClick={onClose} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Close structure">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <input
+                    value={lyrics.title}
+                    onChange={(e) => onChange({ ...lyrics, title: e.target.value })}
+                    maxLength={LYRICS_LIMITS.titleLength}
+                    placeholder="Title"
+                    className={`${INPUT_CLASS} font-semibold`}
+                />
+                <input
+                    value={lyrics.artist ?? ''}
+                    onChange={(e) => onChange({ ...lyrics, artist: e.target.value || undefined })}
+                    placeholder="Artist"
+                    className={INPUT_CLASS}
+                />
+                <input
+                    value={lyrics.composer ?? ''}
+                    onChange={(e) => onChange({ ...lyrics, composer: e.target.value || undefined })}
+                    placeholder="Composer"
+                    className={INPUT_CLASS}
+                />
+            </div>
+
+            <ol className="space-y-2">
+                {lyrics.sections.map((section, index) => (
+                    <li key={index} className={`p-2 rounded-lg border-l-4 bg-white dark:bg-slate-900 ${KIND_STYLES[section.kind]}`}>
+                        <div className="flex items-center gap-2 mb-1.5 text-xs">
+                            <select
+                                value={section.kind}
+                                onChange={(e) => updateSection(index, { kind: e.target.value as LyricsSection['kind'] })}
+                                className="px-1.5 py-1 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 capitalize"
+                            >
+                                {LYRICS_SECTION_KINDS.map((kind) => (
+                                    <option key={kind} value={kind}>{kind}</option>
+                                ))}
+                            </select>
+                            <label className="flex items-center gap-1 text-slate-500" title="How many times the section is sung in a row">
+                                ×
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={LYRICS_LIMITS.repeat}
+                                    value={section.repeat}
+                                    onChange={(e) => updateSection(index, {
+                                        repeat: Math.min(Math.max(Math.round(Number(e.target.value)) || 1, 1), LYRICS_LIMITS.repeat),
+                                    })}
+                                    className="w-12 px-1.5 py-1 rounded-md border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900"
+                                />
+                            </label>
+                            {section.label && <span className="text-slate-400 truncate">{section.label}</span>}
+                            <div className="ml-auto flex items-center">
+                                <button
+                                    onClick={() => moveSection(index, -1)}
+                                    disabled={index === 0}
+                                    className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-30"
+                                    title="Move up"
+                                >
+                                    <ArrowUp className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={() => moveSection(index, 1)}
+                                    disabled={index === lyrics.sections.length - 1}
+                                    className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-30"
+                                    title="Move down"
+                                >
+                                    <ArrowDown className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={() => removeSection(index)}
+                                    className="p-1 rounded-md text-slate-500 hover:text-red-500 hover:bg-slate-200 dark:hover:bg-slate-800"
+                                    title="Remove section"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        </div>
+                        <textarea
+                            value={section.lines.join('\n')}
+                            onChange={(e) => updateSection(index, { lines: e.target.value.split('\n') })}
+                            rows={Math.max(section.lines.length, 2)}
+                            dir="auto"
+                            spellCheck={false}
+                            className="w-full px-2 py-1 rounded-md border border-slate-100 dark:border-slate-800 bg-transparent text-sm leading-relaxed resize-y focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        />
+                    </li>
+                ))}
+            </ol>
+
+            <button
+                onClick={addSection}
+                className="text-xs flex items-center gap-1 px-2 py-1 rounded-md text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+            >
+                <Plus className="w-3 h-3" /> Add section
+            </button>
+        </div>
+    );
+}
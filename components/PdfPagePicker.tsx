@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Check, FileText, Loader2, X } from 'lucide-react';
+import { openPdf, rasterizePdfPage, renderPdfThumbnail } from '@/utils/pdfProcessing';
+
+interface PdfPagePickerProps {
+    file: File;
+    onConfirm: (pages: File[]) => void;
+    onCancel: () => void;
+}
+
+export function PdfPagePicker({ file, onConfirm, onCancel }: PdfPagePickerProps) {
+    const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+    const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    const [rendering, setRendering] = useState<number | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        let doc: PDFDocumentProxy | null = null;
+
+        (async () => {
+            try {
+                doc = await openPdf(file);
+                if (cancelled) return;
+                setPdf(doc);
+                setSelected(new Set(Array.from({ length: doc.numPages }, (_, i) => i + 1)));
+
+                // Thumbnails are rendered one by one so the first pages show up quickly
+                for (let n = 1; n <= doc.numPages && !cancelled; n++) {
+                    const thumb = await renderPdfThumbnail(doc, n);
+                    if (!cancelled) setThumbnails((prev) => ({ ...prev, [n]: thumb }));
+                }
+            } catch (e) {
+                console.error('Failed to open PDF', e);
+                if (!cancelled) setError('Could not read this PDF.');
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+            doc?.destroy();
+        };
+    }, [file]);
+
+    const toggle = (pageNumber: number) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(pageNumber)) next.delete(pageNumber); else next.add(pageNumber);
+            return next;
+        });
+    };
+
+    const handleConfirm = async () => {
+        if (!pdf) return;
+        const pageNumbers = Array.from(selected).sort((a, b) => a - b);
+        const pages: File[] = [];
+        try {
+            for (const n of pageNumbers) {
+                setRendering(n);
+                pages.push(await rasterizePdfPage(pdf, n, file.name));
+            }
+        } catch (e) {
+            console.error('Failed to rasterize PDF page', e);
+            setError('Rendering failed. Try fewer pages.');
+            setRendering(null);
+            return;
+        }
+        setRendering(null);
+        onConfirm(pages);
+    };
+
+    const pageCount = pdf?.numPages ?? 0;
+
+    return (
+        <div className="flex-1 flex flex-col min-h-[400px]">
+            <div className="flex items-center justify-between mb-3 text-sm">
+                <span className="flex items-center gap-2 font-medium text-slate-600 dark:text-slate-300 min-w-0">
+                    <FileText className="w-4 h-4 shrink-0" />
+                    <span className="truncate">{file.name}</span>
+                </span>
+                {pageCount > 0 && (
+                    <div className="flex items-center gap-2 text-xs">
+                        <button
+                            onClick={() => setSelected(new Set(Array.from({ length: pageCount }, (_, i) => i + 1)))}
+                            className="px-2 py-1 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                        >
+                            All
+                        </button>
+                        <button
+                            onClick={() => setSelected(new Set())}
+                            className="px-2 py-1 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                        >
+                            None
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {error && <p className="mb-3 text-sm text-red-500">{error}</p>}
+
+            {!pdf && !error ? (
+                <div className="flex-1 flex items-center justify-center text-slate-400">
+                    <Loader2 className="w-6 h-6 animate-spin" />
+                </div>
+            ) : (
+                <div className="flex-1 overflow-y-auto max-h-[500px] grid grid-cols-3 sm:grid-cols-4 gap-3 pr-1 content-start">
+                    {Array.from({ length: pageCount }, (_, i) => i + 1).map((n) => (
+                        <button
+                            key={n}
+                            onClick={() => toggle(n)}
+                            className={`relative rounded-lg border-2 overflow-hidden bg-white transition-all
+                ${selected.has(n) ? 'border-indigo-500 shadow-md' : 'border-slate-200 dark:border-slate-800 opacity-50'}`}
+                        >
+                            {thumbnails[n] ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={thumbnails[n]} alt={`Page ${n}`} className="w-full" />
+                            ) : (
+                                <div className="aspect-[3/4] flex items-center justify-center text-slate-300">
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                </div>
+                            )}
+                            <span className="absolute bottom-1 left-1 text-[10px] font-mono px-1 rounded bg-black/60 text-white">{n}</span>
+                            {selected.has(n) && (
+                                <span className="absolute top-1 right-1 p-0.5 rounded-full bg-indigo-500 text-white">
+                                    <Check className="w-3 h-3" />
+                                </span>
+                            )}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="mt-4 flex justify-between items-center">
+                <button
+                    onClick={onCancel}
+                    disabled={rendering !== null}
+                    className="text-sm px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    <X className="w-4 h-4" /> Cancel
+                </button>
+                <button
+                    onClick={handleConfirm}
+                    disabled={!pdf || selected.size === 0 || rendering !== null}
+                    className="text-sm px-4 py-2 bg-indigo-600 text-white hover:bg-indigo-700 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                    {rendering !== null ? (
+                        <>
+                            <Loader2 className="w-4 h-4 animate-spin" /> Rendering page {rendering}...
+                        </>
+                    ) : (
+                        <>Start OCR ({selected.size} {selected.size === 1 ? 'page' : 'pages'})</>
+                    )}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+import { PointerEvent, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { languageLabel } from '@/utils/languagePacks';
+import { createRegion, OCRRegion, REGION_ROLES, RegionRect, RegionRole, sortReadingOrder } from '@/utils/ocrRegions';
+
+interface RegionEditorProps {
+    src: string;
+    regions: OCRRegion[];
+    onChange: (regions: OCRRegion[]) => void;
+    languageOptions?: string[]; // Language pack codes a region can be switched to
+}
+
+// Accidental clicks should not leave tiny regions behind
+const MIN_REGION_SIZE = 0.02;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const toRect = (a: { x: number; y: number }, b: { x: number; y: number }): RegionRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+});
+
+/**
+ * Lets the user drag rectangles on top of the image and give each a role.
+ * Numbers show the reading order the regions will be recognized in.
+ */
+export function RegionEditor({ src, regions, onChange, languageOptions = [] }: RegionEditorProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [draft, setDraft] = useState<{ start: { x: number; y: number }; rect: RegionRect } | null>(null);
+
+    const toPoint = (e: PointerEvent<HTMLDivElement>) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+        return {
+            x: clamp((e.clientX - rect.left) / rect.width),
+            y: clamp((e.clientY - rect.top) / rect.height),
+        };
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        const point = toPoint(e);
+        if (!point) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraft({ start: point, rect: toRect(point, point) });
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (!draft) return;
+        const point = toPoint(e);
+        if (point) setDraft({ ...draft, rect: toRect(draft.start, point) });
+    };
+
+    const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        if (draft && draft.rect.width >= MIN_REGION_SIZE && draft.rect.height >= MIN_REGION_SIZE) {
+            onChange([...regions, createRegion(draft.rect)]);
+        }
+        setDraft(null);
+    };
+
+    const updateRole = (id: string, role: RegionRole) => {
+        onChange(regions.map((region) => (region.id === id ? { ...region, role } : region)));
+    };
+
+    // An empty value falls back to the page languages
+    const updateLanguages = (id: string, languages: string) => {
+        onChange(regions.map((region) => (region.id === id ? { ...region, languages: languages || undefined } : region)));
+    };
+
+    const order = sortReadingOrder(regions.filter((region) => region.role !== 'ignore')).map((region) => region.id);
+    const rectStyle = (rect: RegionRect) => ({
+        left: `${rect.x * 100}%`,
+        top: `${rect.y * 100}%`,
+        width: `${rect.width * 100}%`,
+        height: `${rect.height * 100}%`,
+    });
+
+    return (
+        <div
+            ref={containerRef}
+            className="relative max-w-full select-none touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+        >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={src} alt="Select regions" className="block max-w-full max-h-[500px] object-contain shadow-lg" draggable={false} />
+
+            {regions.map((region) => {
+                const role = REGION_ROLES.find((r) => r.role === region.role);
+                const position = order.indexOf(region.id);
+                return (
+                    <div
+                        key={region.id}
+                        className={`absolute border-2 ${role?.className ?? ''}`}
+                        style={rectStyle(region.rect)}
+                    >
+                        {/* Controls must not start a new rectangle */}
+                        <div
+                            className="absolute top-0 left-0 flex items-center gap-1 px-1 py-0.5 rounded-br bg-white/95 dark:bg-slate-900/95 text-[10px] shadow cursor-default"
+                            onPointerDown={(e) => e.stopPropagation()}
+                        >
+                            {position >= 0 && <span className="font-semibold text-slate-500">{position + 1}</span>}
+                            <select
+                                value={region.role}
+                                onChange={(e) => updateRole(region.id, e.target.value as RegionRole)}
+                                className="bg-transparent text-slate-700 dark:text-slate-200"
+                            >
+                                {REGION_ROLES.map(({ role, label }) => (
+                                    <option key={role} value={role}>{label}</option>
+                                ))}
+                            </select>
+                            {languageOptions.length > 0 && region.role !== 'ignore' && (
+                                <select
+                                    value={region.languages ?? ''}
+                                    onChange={(e) => updateLanguages(region.id, e.target.value)}
+                                    className="bg-transparent text-slate-700 dark:text-slate-200"
+                                    title="Language for this region"
+                                >
+                                    <option value="">Default language</option>
+                                    {languageOptions.map((code) => (
+                                        <option key={code} value={code}>{languageLabel(code)}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <button
+                                onClick={() => onChange(regions.filter((r) => r.id !== region.id))}
+                                className="text-slate-400 hover:text-red-500"
+                                title="Remove region"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {draft && (
+                <div className="absolute border-2 border-dashed border-indigo-500 bg-indigo-500/10 pointer-events-none" style={rectStyle(draft.rect)} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,270 @@
+import { KeyboardEvent as ReactKeyboardEvent, MouseEvent, ReactNode, RefObject, useEffect, useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { BookPlus, EyeOff } from 'lucide-react';
+import type { TextRange } from '@/utils/ocrWords';
+import type { Misspelling } from '@/utils/amharicSpellcheck';
+import { transliterateKey } from '@/utils/transliteration';
+
+export interface EditorHighlight extends TextRange {
+    className: string;
+    spelling?: boolean; // Misspelled word, opens the suggestion menu on right-click
+}
+
+interface ResultEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    highlights?: EditorHighlight[];
+    activeRange?: TextRange | null; // Scrolled into view when it changes
+    textareaRef?: RefObject<HTMLTextAreaElement | null>;
+    onCaretChange?: (offset: number) => void;
+    misspellings?: Misspelling[];
+    getSuggestions?: (word: string) => string[];
+    onAddWord?: (word: string) => void;
+    onIgnoreWord?: (word: string) => void;
+    transliterate?: boolean; // Convert Latin keystrokes to fidel as they are typed
+}
+
+interface SpellingMenu {
+    word: string;
+    range: TextRange;
+    suggestions: string[];
+    x: number;
+    y: number;
+}
+
+// Shared by the textarea and the highlight layer so both wrap text identically
+const TEXT_LAYOUT = 'p-4 font-sans text-lg leading-relaxed whitespace-pre-wrap break-words';
+
+const SPELLING_CLASS = 'underline decoration-wavy decoration-red-500 underline-offset-4';
+
+/**
+ * Splits the text into plain and highlighted segments. Overlapping highlights
+ * are clipped so each character is rendered once.
+ */
+function renderSegments(text: string, highlights: EditorHighlight[], activeRange?: TextRange | null): ReactNode[] {
+    // Highlights on exactly the same range are merged, e.g. a low-confidence word that is also misspelled
+    const merged = new Map<string, EditorHighlight>();
+    for (const highlight of highlights) {
+        const key = `${highlight.start}:${highlight.end}`;
+        const existing = merged.get(key);
+        merged.set(key, existing
+            ? { ...existing, className: `${existing.className} ${highlight.className}`, spelling: existing.spelling || highlight.spelling }
+            : highlight);
+    }
+
+    const sorted = [...merged.values()].sort((a, b) => a.start - b.start);
+    const nodes: ReactNode[] = [];
+    let cursor = 0;
+
+    for (const highlight of sorted) {
+        const start = Math.max(highlight.start, cursor);
+        if (start >= highlight.end) continue;
+        if (start > cursor) nodes.push(text.slice(cursor, start));
+
+        const isActive = activeRange?.start === highlight.start && activeRange?.end === highlight.end;
+        nodes.push(
+            <mark
+                key={start}
+                data-active={isActive || undefined}
+                data-spelling={highlight.spelling || undefined}
+                data-start={start}
+                data-end={highlight.end}
+                // A mark only carrying the underline must not get the browser's yellow background
+                className={`rounded-sm text-transparent ${highlight.className}${highlight.className === SPELLING_CLASS ? ' bg-transparent' : ''}`}
+            >
+                {text.slice(start, highlight.end)}
+            </mark>
+        );
+        cursor = highlight.end;
+    }
+
+    nodes.push(text.slice(cursor));
+    return nodes;
+}
+
+/**
+ * Plain textarea with a highlight layer rendered behind it.
+ * The textarea stays the single source of input; the backdrop only mirrors its
+ * text (transparent) and scroll position to paint marks under words.
+ */
+export function ResultEditor({
+    value,
+    onChange,
+    placeholder,
+    highlights = [],
+    activeRange,
+    textareaRef,
+    onCaretChange,
+    misspellings = [],
+    getSuggestions,
+    onAddWord,
+    onIgnoreWord,
+    transliterate = false,
+}: ResultEditorProps) {
+    const localRef = useRef<HTMLTextAreaElement>(null);
+    const ref = textareaRef ?? localRef;
+    const backdropRef = useRef<HTMLDivElement>(null);
+    const [menu, setMenu] = useState<SpellingMenu | null>(null);
+    // Set by ' so the next vowel starts a new syllable instead of joining the consonant
+    const separatedRef = useRef(false);
+
+    const allHighlights: EditorHighlight[] = [
+        ...highlights,
+        ...misspellings.map((m) => ({ start: m.start, end: m.end, className: SPELLING_CLASS, spelling: true })),
+    ];
+
+    const syncScroll = () => {
+        if (ref.current && backdropRef.current) {
+            backdropRef.current.scrollTop = ref.current.scrollTop;
+        }
+    };
+
+    useEffect(() => {
+        const textarea = ref.current;
+        const mark = backdropRef.current?.querySelector<HTMLElement>('mark[data-active]');
+        if (!textarea || !mark) return;
+
+        const top = mark.offsetTop;
+        if (top < textarea.scrollTop || top > textarea.scrollTop + textarea.clientHeight - mark.offsetHeight) {
+            textarea.scrollTop = Math.max(top - textarea.clientHeight / 3, 0);
+            syncScroll();
+        }
+    });
+
+    useEffect(() => {
+        if (!menu) return;
+        const close = () => setMenu(null);
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') close();
+        };
+        window.addEventListener('pointerdown', close);
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('resize', close);
+        return () => {
+            window.removeEventListener('pointerdown', close);
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('resize', close);
+        };
+    }, [menu]);
+
+    // The textarea sits on top of the marks, so find the misspelled word under the pointer by geometry
+    const handleContextMenu = (e: MouseEvent<HTMLTextAreaElement>) => {
+        const marks = backdropRef.current?.querySelectorAll<HTMLElement>('mark[data-spelling]') ?? [];
+        for (const mark of marks) {
+            const hit = Array.from(mark.getClientRects()).some((rect) =>
+                e.clientX >= rect.left && e.clientX <= rect.right && e.clientY >= rect.top && e.clientY <= rect.bottom
+            );
+            if (!hit) continue;
+
+            e.preventDefault();
+            const range = { start: Number(mark.dataset.start), end: Number(mark.dataset.end) };
+            const word = value.slice(range.start, range.end);
+            setMenu({ word, range, suggestions: getSuggestions?.(word) ?? [], x: e.clientX, y: e.clientY });
+            return;
+        }
+    };
+
+    const handleKeyDown = (e: ReactKeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Shift') return; // Needed for W, E, ... without cancelling a pending '
+        if (!transliterate || e.key.length !== 1 || e.ctrlKey || e.metaKey || e.altKey || e.nativeEvent.isComposing) {
+            separatedRef.current = false;
+            return;
+        }
+
+        const textarea = e.currentTarget;
+        const { selectionStart, selectionEnd } = textarea;
+        const before = value.slice(0, selectionStart);
+        const edit = transliterateKey(before, e.key, separatedRef.current);
+        separatedRef.current = edit?.separated ?? false;
+        if (!edit) return;
+
+        e.preventDefault();
+        const start = selectionStart - edit.deleteCount;
+        // Commit synchronously so the caret can be restored before the next key arrives
+        flushSync(() => onChange(value.slice(0, start) + edit.insert + value.slice(selectionEnd)));
+        textarea.setSelectionRange(start + edit.insert.length, start + edit.insert.length);
+        onCaretChange?.(start + edit.insert.length);
+    };
+
+    const replaceWord = (replacement: string) => {
+        if (!menu) return;
+        onChange(value.slice(0, menu.range.start) + replacement + value.slice(menu.range.end));
+        setMenu(null);
+    };
+
+    return (
+        <div className="absolute inset-0 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-black/20 focus-within:ring-2 focus-within:ring-indigo-500/20 focus-within:border-indigo-500 overflow-hidden">
+            <div
+                ref={backdropRef}
+                aria-hidden
+                className={`absolute inset-0 overflow-y-auto pointer-events-none text-transparent ${TEXT_LAYOUT}`}
+                style={{ scrollbarGutter: 'stable' }}
+            >
+                {renderSegments(value, allHighlights, activeRange)}
+                {/* Keeps the last line's height in sync when the text ends with a newline */}
+                {' '}
+            </div>
+            <textarea
+                ref={ref}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onScroll={syncScroll}
+                onSelect={(e) => onCaretChange?.(e.currentTarget.selectionStart)}
+                onContextMenu={handleContextMenu}
+                placeholder={placeholder}
+                className={`relative w-full h-full bg-transparent outline-none resize-none overflow-y-auto text-slate-800 dark:text-slate-200 ${TEXT_LAYOUT}`}
+                style={{ scrollbarGutter: 'stable' }}
+                spellCheck={false} // Browsers have no Amharic dictionary; misspellings come from our own lexicon
+                dir="auto" // Auto direction for RTL/LTR support (Amharic handles it well usually, but clean to have)
+            />
+
+            {menu && (
+                <div
+                    className="fixed z-50 min-w-44 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 shadow-xl text-sm"
+                    style={{ left: menu.x, top: menu.y }}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onContextMenu={(e) => e.preventDefault()}
+                >
+                    {menu.suggestions.length > 0 ? (
+                        menu.suggestions.map((suggestion) => (
+                            <button
+                                key={suggestion}
+                                onClick={() => replaceWord(suggestion)}
+                                className="block w-full text-left px-3 py-1.5 font-medium hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                            >
+                                {suggestion}
+                            </button>
+                        ))
+                    ) : (
+                        <span className="block px-3 py-1.5 text-slate-400">No suggestions</span>
+                    )}
+                    <div className="my-1 border-t border-slate-100 dark:border-slate-800" />
+                    {onAddWord && (
+                        <button
+                            onClick={() => {
+                                onAddWord(menu.word);
+                                setMenu(null);
+                            }}
+                            className="w-full text-left px-3 py-1.5 flex items-center gap-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                        >
+                            <BookPlus className="w-3.5 h-3.5" /> Add &ldquo;{menu.word}&rdquo; to dictionary
+                        </button>
+                    )}
+                    {onIgnoreWord && (
+                        <button
+                            onClick={() => {
+                                onIgnoreWord(menu.word);
+                                setMenu(null);
+                            }}
+                            className="w-full text-left px-3 py-1.5 flex items-center gap-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                        >
+                            <EyeOff className="w-3.5 h-3.5" /> Ignore
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
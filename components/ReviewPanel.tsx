@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react';
+import type { LocatedWord } from '@/utils/ocrWords';
+import { cropImageRegion } from '@/utils/imageProcessing';
+
+interface ReviewPanelProps {
+    words: LocatedWord[]; // Words still awaiting review, in reading order
+    index: number;
+    imageSrc: string; // Same image the OCR ran on, so bboxes line up
+    onIndexChange: (index: number) => void;
+    onReplace: (word: LocatedWord, replacement: string) => void;
+    onKeep: (word: LocatedWord) => void;
+    onClose: () => void;
+}
+
+export function ReviewPanel({ words, index, imageSrc, onIndexChange, onReplace, onKeep, onClose }: ReviewPanelProps) {
+    const word = words[index];
+    const [crop, setCrop] = useState<{ key: string; url: string } | null>(null);
+    const [draft, setDraft] = useState({ key: '', text: '' });
+
+    const wordKey = word ? `${word.index}:${word.text}` : '';
+    const replacement = draft.key === wordKey ? draft.text : word?.text ?? '';
+
+    const bbox = word?.bbox;
+
+    useEffect(() => {
+        if (!bbox) return;
+        let cancelled = false;
+        cropImageRegion(imageSrc, bbox)
+            .then((url) => {
+                if (!cancelled) setCrop({ key: wordKey, url });
+            })
+            .catch((e) => console.error('Failed to crop word region', e));
+        return () => {
+            cancelled = true;
+        };
+    }, [imageSrc, bbox, wordKey]);
+
+    if (!word) {
+        return (
+            <div className="mb-4 p-4 rounded-xl border border-emerald-200 dark:border-emerald-900 bg-emerald-50/50 dark:bg-emerald-900/10 flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-emerald-700 dark:text-emerald-400">
+                    <Check className="w-4 h-4" /> No low-confidence words left to review.
+                </span>
+                <button onClick={onClose} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Close review">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        );
+    }
+
+    const apply = () => {
+        if (replacement !== word.text) onReplace(word, replacement);
+        else onKeep(word);
+    };
+
+    return (
+        <div className="mb-4 p-4 rounded-xl border border-amber-200 dark:border-amber-900 bg-amber-50/50 dark:bg-amber-900/10">
+            <div className="flex items-center justify-between mb-3 text-sm">
+                <span className="font-medium text-slate-600 dark:text-slate-300">
+                    Review {index + 1} / {words.length}
+                    <span className="ml-2 text-amber-600">{word.confidence.toFixed(0)}% confidence</span>
+                </span>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => onIndexChange(index - 1)}
+                        disabled={index === 0}
+                        className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-30"
+                        title="Previous word"
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => onIndexChange(index + 1)}
+                        disabled={index >= words.length - 1}
+                        className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800 disabled:opacity-30"
+                        title="Next word"
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                    <button onClick={onClose} className="p-1 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-800" title="Close review">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+                <div className="w-40 h-16 shrink-0 rounded-lg border border-slate-200 dark:border-slate-700 bg-white flex items-center justify-center overflow-hidden">
+                    {crop?.key === wordKey ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={crop.url} alt={`Scan of "${word.text}"`} className="max-w-full max-h-full object-contain" />
+                    ) : (
+                        <Loader2 className="w-4 h-4 animate-spin text-slate-300" />
+                    )}
+                </div>
+                <form
+                    className="flex-1 flex items-center gap-2"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        apply();
+                    }}
+                >
+                    <input
+                        value={replacement}
+                        onChange={(e) => setDraft({ key: wordKey, text: e.target.value })}
+                        className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-black/20 text-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+                        autoFocus
+                        spellCheck={false}
+                    />
+                    <button
+                        type="submit"
+                        className="px-3 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+                        title="Apply the correction (Enter) and go to the next word"
+                    >
+                        {replacement === word.text ? 'Keep' : 'Fix'}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+import { FormEvent, useState } from 'react';
+import { KeyRound, Loader2, X } from 'lucide-react';
+
+interface SignInDialogProps {
+    onSignIn: (apiKey: string) => Promise<string | null>; // Resolves an error message, or null on success
+    onClose: () => void;
+}
+
+/**
+ * Asks for the personal upload key once; the server turns it into a session
+ * cookie and the key is not stored in the browser.
+ */
+export function SignInDialog({ onSignIn, onClose }: SignInDialogProps) {
+    const [apiKey, setApiKey] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!apiKey.trim()) return;
+        setIsSubmitting(true);
+        setError(null);
+        const message = await onSignIn(apiKey.trim());
+        setIsSubmitting(false);
+        if (message) setError(message);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+            <form
+                onSubmit={handleSubmit}
+                className="relative w-full max-w-sm p-6 space-y-4 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-2xl"
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="font-semibold flex items-center gap-2">
+                        <KeyRound className="w-5 h-5 text-indigo-500" />
+                        Sign in to upload
+                    </h2>
+                    <button type="button" onClick={onClose} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <p className="text-sm text-slate-500">
+                    Enter the upload key you were given. It is only sent once; this browser keeps a session instead.
+                </p>
+                <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder="aocr_…"
+                    autoComplete="off"
+                    autoFocus
+                    className="w-full px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-950 text-sm font-mono"
+                />
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <button
+                    type="submit"
+                    disabled={!apiKey.trim() || isSubmitting}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+                >
+                    {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Sign in
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Minified tesseract.js bundles copied in by postinstall
+    "public/tesseract/**",
   ]),
 ]);
 
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  extendDictionary,
+  loadDictionary,
+  loadUserWords,
+  saveUserWords,
+  USER_WORD_FREQUENCY,
+  WordDictionary,
+} from '@/utils/amharicDictionary';
+
+/**
+ * Loads the shared Amharic word list and merges the user's own words into it.
+ * `dictionary` is null until the bundled list is available (or if it failed).
+ */
+export const useAmharicDictionary = () => {
+  const [bundled, setBundled] = useState<WordDictionary | null>(null);
+  // localStorage does not exist during server rendering
+  const [userWords, setUserWords] = useState<string[]>(() =>
+    typeof window === 'undefined' ? [] : loadUserWords()
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDictionary()
+      .then((loaded) => {
+        if (!cancelled) setBundled(loaded);
+      })
+      .catch((e) => console.error('Failed to load the Amharic dictionary', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const dictionary = useMemo(
+    () => bundled && extendDictionary(bundled, userWords.map((word): [string, number] => [word, USER_WORD_FREQUENCY])),
+    [bundled, userWords]
+  );
+
+  const addWord = useCallback((word: string) => {
+    const normalized = word.trim().normalize('NFC');
+    if (!normalized) return;
+    setUserWords((prev) => {
+      if (prev.includes(normalized)) return prev;
+      const next = [...prev, normalized];
+      saveUserWords(next);
+      return next;
+    });
+  }, []);
+
+  return { dictionary, userWords, addWord };
+};
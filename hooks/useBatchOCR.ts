@@ -0,0 +1,185 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Page } from 'tesseract.js';
+import { recognizeImage, useSharedWorkerPool } from '@/hooks/useOCR';
+import { preprocessImage, PreprocessOptions } from '@/utils/imageProcessing';
+import type { EngineOptions } from '@/utils/engineOptions';
+import { isAbortError } from '@/utils/tesseractPool';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'completed' | 'error';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number;
+  confidence: number;
+  text: string;
+  error?: string;
+}
+
+interface BatchOCROptions {
+  languages: string;
+  usePreprocessing: boolean;
+  preprocessOptions?: PreprocessOptions;
+  engineOptions?: EngineOptions;
+  // Called for every recognized page, with the preprocessed image when there is one
+  onPageRecognized?: (file: File, data: Page, processedImage: string | null) => void;
+}
+
+// Pages beyond the worker pool size simply wait for a free worker
+export const MAX_BATCH_CONCURRENCY = 3;
+
+let nextItemId = 0;
+
+/**
+ * Joins the recognized pages in queue order, separated by a page break marker
+ * so the combined text can still be split back into pages later.
+ */
+export const buildCombinedText = (items: BatchItem[]): string =>
+  items
+    .map((item, index) => `--- Page ${index + 1}: ${item.file.name} ---\n${item.status === 'completed' ? item.text.trim() : '[not recognized]'}`)
+    .join('\n\n');
+
+export const useBatchOCR = ({ languages, usePreprocessing, preprocessOptions, engineOptions, onPageRecognized }: BatchOCROptions) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(1);
+
+  useSharedWorkerPool();
+
+  // The queue is driven imperatively from job callbacks, so it reads the
+  // latest items and options from refs instead of stale closures.
+  const itemsRef = useRef<BatchItem[]>([]);
+  const optionsRef = useRef({ languages, usePreprocessing, preprocessOptions, engineOptions, onPageRecognized, concurrency });
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    optionsRef.current = { ...optionsRef.current, languages, usePreprocessing, preprocessOptions, engineOptions, onPageRecognized };
+  }, [languages, usePreprocessing, preprocessOptions, engineOptions, onPageRecognized]);
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.id === id ? { ...item, ...patch } : item));
+    setItems(itemsRef.current);
+  }, []);
+
+  const pump = useCallback(() => {
+    const { concurrency } = optionsRef.current;
+    let slots = concurrency - itemsRef.current.filter((item) => item.status === 'processing').length;
+
+    for (const item of itemsRef.current) {
+      if (slots <= 0) break;
+      if (item.status !== 'queued') continue;
+      slots--;
+
+      updateItem(item.id, { status: 'processing', progress: 0, error: undefined });
+
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+
+      const { languages, usePreprocessing, preprocessOptions, engineOptions, onPageRecognized } = optionsRef.current;
+      // A job can settle after its item was removed or cleared; its results then go nowhere
+      const isLive = () => !controller.signal.aborted && itemsRef.current.some((queued) => queued.id === item.id);
+      const run = async () => {
+        let input: File | string = item.file;
+        if (usePreprocessing) {
+          try {
+            input = await preprocessImage(item.file, preprocessOptions);
+          } catch (e) {
+            console.error(`Preprocessing failed for ${item.file.name}, falling back to original`, e);
+          }
+        }
+
+        const data = await recognizeImage(input, languages, (stage, value) => {
+          if (stage === 'recognizing text') updateItem(item.id, { progress: value });
+        }, controller.signal, { engine: engineOptions });
+        return { data, processedImage: typeof input === 'string' ? input : null };
+      };
+
+      run()
+        .then(({ data, processedImage }) => {
+          if (!isLive()) return;
+          updateItem(item.id, { status: 'completed', progress: 1, text: data.text, confidence: data.confidence });
+          onPageRecognized?.(item.file, data, processedImage);
+        })
+        .catch((err) => {
+          if (isAbortError(err) || !isLive()) return;
+          console.error(err);
+          updateItem(item.id, { status: 'error', error: err instanceof Error ? err.message : 'OCR failed' });
+        })
+        .finally(() => {
+          if (controllersRef.current.get(item.id) === controller) controllersRef.current.delete(item.id);
+          pump();
+        });
+    }
+  }, [updateItem]);
+
+  const enqueue = useCallback((files: File[]) => {
+    const added: BatchItem[] = files.map((file) => ({
+      id: `page-${++nextItemId}`,
+      file,
+      status: 'queued',
+      progress: 0,
+      confidence: 0,
+      text: '',
+    }));
+    itemsRef.current = [...itemsRef.current, ...added];
+    setItems(itemsRef.current);
+    pump();
+  }, [pump]);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', progress: 0, error: undefined });
+    pump();
+  }, [updateItem, pump]);
+
+  const retryFailed = useCallback(() => {
+    itemsRef.current
+      .filter((item) => item.status === 'error')
+      .forEach((item) => updateItem(item.id, { status: 'queued', progress: 0, error: undefined }));
+    pump();
+  }, [updateItem, pump]);
+
+  const changeConcurrency = useCallback((value: number) => {
+    const next = Math.min(Math.max(Math.round(value), 1), MAX_BATCH_CONCURRENCY);
+    optionsRef.current = { ...optionsRef.current, concurrency: next };
+    setConcurrency(next);
+    pump();
+  }, [pump]);
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    itemsRef.current = itemsRef.current.filter((item) => item.id !== id);
+    setItems(itemsRef.current);
+  }, []);
+
+  // Running jobs are aborted; anything they still report is dropped
+  const clear = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    itemsRef.current = [];
+    setItems([]);
+  }, []);
+
+  const summary = useMemo(() => {
+    const completed = items.filter((item) => item.status === 'completed');
+    const failed = items.filter((item) => item.status === 'error').length;
+    const pending = items.length - completed.length - failed;
+    const averageConfidence = completed.length > 0
+      ? completed.reduce((sum, item) => sum + item.confidence, 0) / completed.length
+      : 0;
+    return { completed: completed.length, failed, pending, averageConfidence, isRunning: pending > 0 };
+  }, [items]);
+
+  const combinedText = useMemo(() => buildCombinedText(items), [items]);
+
+  return {
+    items,
+    enqueue,
+    retry,
+    retryFailed,
+    remove,
+    clear,
+    concurrency,
+    setConcurrency: changeConcurrency,
+    combinedText,
+    ...summary,
+  };
+};
@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+import { DEFAULT_ENGINE_OPTIONS, EngineOptions, loadEngineOptions, saveEngineOptions } from '@/utils/engineOptions';
+
+export const useEngineOptions = () => {
+  // localStorage does not exist during server rendering; the panel is only opened client-side
+  const [options, setOptions] = useState<EngineOptions>(() =>
+    typeof window === 'undefined' ? DEFAULT_ENGINE_OPTIONS : loadEngineOptions()
+  );
+
+  const updateOption = useCallback(<K extends keyof EngineOptions>(key: K, value: EngineOptions[K]) => {
+    setOptions((prev) => {
+      const next = { ...prev, [key]: value };
+      saveEngineOptions(next);
+      return next;
+    });
+  }, []);
+
+  const resetOptions = useCallback(() => {
+    setOptions(DEFAULT_ENGINE_OPTIONS);
+    saveEngineOptions(DEFAULT_ENGINE_OPTIONS);
+  }, []);
+
+  return { options, updateOption, resetOptions };
+};
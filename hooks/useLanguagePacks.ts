@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DEFAULT_LANGUAGES,
+  fetchLanguagePacks,
+  LanguagePack,
+  loadLanguageSelection,
+  saveLanguageSelection,
+  toLanguageString,
+} from '@/utils/languagePacks';
+
+/**
+ * Available language packs and the ordered selection used for OCR.
+ * The remembered selection is applied once the pack list has loaded (so a
+ * pack removed from the server is dropped), which also keeps the first
+ * render identical to the server-rendered one.
+ */
+export const useLanguagePacks = () => {
+  const [packs, setPacks] = useState<LanguagePack[] | null>(null); // null while loading
+  const [selection, setSelection] = useState<string[]>(DEFAULT_LANGUAGES);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLanguagePacks()
+      .then((available) => {
+        if (cancelled) return;
+        const codes = new Set(available.map((pack) => pack.code));
+        const remembered = loadLanguageSelection().filter((code) => codes.has(code));
+        setPacks(available);
+        setSelection(remembered.length > 0 ? remembered : DEFAULT_LANGUAGES);
+      })
+      .catch((e) => {
+        console.error('Failed to load language packs', e);
+        if (cancelled) return;
+        setPacks([]);
+        setSelection(loadLanguageSelection());
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = useCallback((next: string[]) => {
+    if (next.length === 0) return; // Tesseract needs at least one language
+    setSelection(next);
+    saveLanguageSelection(next);
+  }, []);
+
+  const toggle = useCallback((code: string) => {
+    update(selection.includes(code) ? selection.filter((c) => c !== code) : [...selection, code]);
+  }, [selection, update]);
+
+  // Moves a selected language up (-1) or down (+1) in priority
+  const move = useCallback((code: string, delta: number) => {
+    const from = selection.indexOf(code);
+    const to = from + delta;
+    if (from < 0 || to < 0 || to >= selection.length) return;
+    const next = [...selection];
+    next.splice(from, 1);
+    next.splice(to, 0, code);
+    update(next);
+  }, [selection, update]);
+
+  return { packs, selection, languages: toLanguageString(selection), toggle, move };
+};
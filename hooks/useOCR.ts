@@ -1,7 +1,99 @@
-import { useState, useCallback } from 'react';
-import { createWorker } from 'tesseract.js';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Page } from 'tesseract.js';
+import { getSharedWorkerPool, isAbortError, ProgressHandler, RecognizeOptions, releaseSharedWorkerPool, retainSharedWorkerPool } from '@/utils/tesseractPool';
+import { getImageSize } from '@/utils/imageProcessing';
+import { DEFAULT_ENGINE_OPTIONS, EngineOptions } from '@/utils/engineOptions';
+import {
+  formatSections,
+  labelSections,
+  maskPage,
+  mergePages,
+  OCRRegion,
+  OCRSection,
+  sortReadingOrder,
+  toPixelRectangle,
+} from '@/utils/ocrRegions';
 
-export type OCRStatus = 'idle' | 'initializing' | 'recognizing' | 'completed' | 'error';
+export type OCRStatus = 'idle' | 'initializing' | 'recognizing' | 'completed' | 'error' | 'cancelled';
+
+/**
+ * Runs a recognition pass on the shared worker pool.
+ * Shared by the single-image flow and the batch queue.
+ */
+export const recognizeImage = (
+  image: File | string,
+  languages: string = 'amh',
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal,
+  options?: RecognizeOptions
+): Promise<Page> => getSharedWorkerPool().recognize(image, languages, onProgress, signal, options);
+
+const measureImage = async (image: File | string) => {
+  if (typeof image === 'string') return getImageSize(image);
+  const url = URL.createObjectURL(image);
+  try {
+    return await getImageSize(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Recognizes each non-ignored region separately (in parallel on the pool) and
+ * returns them as labelled sections in reading order. Words inside "ignore"
+ * regions are masked out of the other regions.
+ */
+export const recognizeRegions = async (
+  image: File | string,
+  regions: OCRRegion[],
+  languages: string = 'amh',
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal,
+  engine: EngineOptions = DEFAULT_ENGINE_OPTIONS
+): Promise<{ data: Page | null; sections: OCRSection[] }> => {
+  const size = await measureImage(image);
+  const ordered = sortReadingOrder(regions).filter((region) => region.role !== 'ignore');
+  const masks = regions.filter((region) => region.role === 'ignore').map((region) => toPixelRectangle(region.rect, size));
+  const labels = labelSections(ordered);
+
+  // Overall progress is the mean of the per-region progress
+  const progress = ordered.map(() => 0);
+  const pages = await Promise.all(ordered.map(async (region, i) => {
+    const page = await recognizeImage(image, region.languages ?? languages, (stage, value) => {
+      if (stage === 'recognizing text') progress[i] = value;
+      onProgress?.(stage, progress.reduce((sum, p) => sum + p, 0) / progress.length);
+    }, signal, { rectangle: toPixelRectangle(region.rect, size), engine });
+    return maskPage(page, masks);
+  }));
+
+  const sections = ordered.map((region, i): OCRSection => ({
+    regionId: region.id,
+    role: region.role as OCRSection['role'],
+    label: labels.get(region.id) ?? region.role,
+    text: pages[i].text.trim(),
+    confidence: pages[i].confidence,
+  }));
+  return { data: mergePages(pages, formatSections(sections)), sections };
+};
+
+/**
+ * Keeps the shared Tesseract workers alive while the calling component is
+ * mounted; they are terminated once the last user unmounts.
+ */
+export const useSharedWorkerPool = () => {
+  useEffect(() => {
+    retainSharedWorkerPool();
+    return releaseSharedWorkerPool;
+  }, []);
+};
+
+export interface OCRJob {
+  id: number;
+  result: Promise<Page | undefined>; // Resolves undefined when the job failed or was cancelled
+  cancel: () => void;
+}
+
+let nextJobId = 0;
 
 export const useOCR = () => {
   const [progress, setProgress] = useState<number>(0);
@@ -9,45 +101,115 @@ export const useOCR = () => {
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [result, setResult] = useState<string | null>(null);
   const [confidence, setConfidence] = useState<number>(0);
+  const [resultJobId, setResultJobId] = useState<number | null>(null);
+  const [resultData, setResultData] = useState<Page | null>(null); // Full result, incl. word boxes and confidences
+  const [sections, setSections] = useState<OCRSection[] | null>(null); // Set when only selected regions were recognized
+
+  // Only the latest job may write to state; anything older is stale
+  const activeJobRef = useRef<{ id: number; controller: AbortController } | null>(null);
+
+  useSharedWorkerPool();
+
+  const cancelJob = useCallback((id: number) => {
+    const job = activeJobRef.current;
+    if (!job || job.id !== id) return;
 
-  const performOCR = useCallback(async (image: File | string, languages: string = 'amh') => {
-    try {
-      setStatus('initializing');
-      setStatusMessage('Initializing Tesseract...');
-      setProgress(0);
-      setResult(null);
-
-      // Create worker with local language data path
-      const worker = await createWorker(languages, 1, {
-        logger: (m) => {
-          if (m.status === 'recognizing text') {
-            setProgress(m.progress);
-            setStatusMessage(`Recognizing... ${Math.round(m.progress * 100)}%`);
+    job.controller.abort();
+    activeJobRef.current = null;
+    setStatus('cancelled');
+    setStatusMessage('OCR cancelled.');
+    setProgress(0);
+  }, []);
+
+  const cancelOCR = useCallback(() => {
+    if (activeJobRef.current) cancelJob(activeJobRef.current.id);
+  }, [cancelJob]);
+
+  const performOCR = useCallback((
+    image: File | string,
+    languages: string = 'amh',
+    regions: OCRRegion[] = [],
+    engine: EngineOptions = DEFAULT_ENGINE_OPTIONS
+  ): OCRJob => {
+    // A new job supersedes whatever is still running
+    activeJobRef.current?.controller.abort();
+
+    const id = ++nextJobId;
+    const controller = new AbortController();
+    activeJobRef.current = { id, controller };
+    const isCurrent = () => activeJobRef.current?.id === id;
+
+    const run = async () => {
+      try {
+        setStatus('initializing');
+        setStatusMessage('Preparing Tesseract...');
+        setProgress(0);
+        setResult(null);
+        setResultJobId(null);
+        setResultData(null);
+        setSections(null);
+
+        const onProgress: ProgressHandler = (stage, value) => {
+          if (!isCurrent()) return;
+          if (stage === 'recognizing text') {
+            setStatus('recognizing');
+            setProgress(value);
+            setStatusMessage(`Recognizing... ${Math.round(value * 100)}%`);
           } else {
-            setStatusMessage(m.status);
+            setStatusMessage(stage);
           }
-        },
-        langPath: '/tessdata', // Points to public/tessdata which we populated
-        gzip: false, // Our local files are likely .traineddata (not .gz) unless we checked. 
-                     // The user's files were .traineddata so gzip: false is correct.
-      });
-
-      setStatus('recognizing');
-      const { data } = await worker.recognize(image);
-      
-      setResult(data.text);
-      setConfidence(data.confidence);
-      setStatus('completed');
-      setStatusMessage('Done!');
-
-      await worker.terminate();
-      return data;
-    } catch (err) {
-      console.error(err);
-      setStatus('error');
-      setStatusMessage('Error occurred during OCR processing.');
-    }
+        };
+
+        let data: Page;
+        let regionSections: OCRSection[] | null = null;
+        if (regions.some((region) => region.role !== 'ignore')) {
+          const regionResult = await recognizeRegions(image, regions, languages, onProgress, controller.signal, engine);
+          if (!regionResult.data) throw new Error('No regions to recognize');
+          data = regionResult.data;
+          regionSections = regionResult.sections;
+        } else {
+          data = await recognizeImage(image, languages, onProgress, controller.signal, { engine });
+        }
+
+        if (!isCurrent()) return undefined;
+        activeJobRef.current = null;
+
+        setResult(data.text);
+        setResultJobId(id);
+        setResultData(data);
+        setSections(regionSections);
+        setConfidence(data.confidence);
+        setStatus('completed');
+        setStatusMessage('Done!');
+
+        return data;
+      } catch (err) {
+        if (isAbortError(err) || !isCurrent()) return undefined;
+        activeJobRef.current = null;
+
+        console.error(err);
+        setStatus('error');
+        setStatusMessage('Error occurred during OCR processing.');
+      }
+    };
+
+    return { id, result: run(), cancel: () => cancelJob(id) };
+  }, [cancelJob]);
+
+  // Shows a result recognized earlier (e.g. reopened from the history) as if its job had just completed
+  const restoreResult = useCallback((data: Page) => {
+    activeJobRef.current?.controller.abort();
+    activeJobRef.current = null;
+
+    setResult(data.text);
+    setResultJobId(++nextJobId);
+    setResultData(data);
+    setSections(null);
+    setConfidence(data.confidence);
+    setProgress(1);
+    setStatus('completed');
+    setStatusMessage('Restored from history.');
   }, []);
 
-  return { performOCR, progress, status, statusMessage, result, confidence };
+  return { performOCR, cancelOCR, restoreResult, progress, status, statusMessage, result, resultJobId, confidence, data: resultData, sections };
 };
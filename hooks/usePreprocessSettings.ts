@@ -0,0 +1,45 @@
+import { useState, useCallback, useMemo } from 'react';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from '@/utils/imageProcessing';
+import { BUILT_IN_PRESETS, loadUserPresets, PreprocessPreset, saveUserPresets } from '@/utils/preprocessPresets';
+
+const sameOptions = (a: Required<PreprocessOptions>, b: Required<PreprocessOptions>) =>
+  (Object.keys(a) as (keyof PreprocessOptions)[]).every((key) => a[key] === b[key]);
+
+export const usePreprocessSettings = () => {
+  const [options, setOptions] = useState<Required<PreprocessOptions>>(DEFAULT_PREPROCESS_OPTIONS);
+  // localStorage does not exist during server rendering; presets are only shown client-side
+  const [userPresets, setUserPresets] = useState<PreprocessPreset[]>(() =>
+    typeof window === 'undefined' ? [] : loadUserPresets()
+  );
+
+  const updateOption = useCallback(<K extends keyof PreprocessOptions>(key: K, value: Required<PreprocessOptions>[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
+  const applyPreset = useCallback((preset: PreprocessPreset) => {
+    setOptions(preset.options);
+  }, []);
+
+  const savePreset = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setUserPresets((prev) => {
+      const next = [...prev.filter((preset) => preset.name !== trimmed), { name: trimmed, options }];
+      saveUserPresets(next);
+      return next;
+    });
+  }, [options]);
+
+  const deletePreset = useCallback((name: string) => {
+    setUserPresets((prev) => {
+      const next = prev.filter((preset) => preset.name !== name);
+      saveUserPresets(next);
+      return next;
+    });
+  }, []);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+  const activePreset = presets.find((preset) => sameOptions(preset.options, options));
+
+  return { options, updateOption, presets, activePreset, applyPreset, savePreset, deletePreset };
+};
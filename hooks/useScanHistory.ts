@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createThumbnail } from '@/utils/imageProcessing';
+import {
+  addScan,
+  deleteScan,
+  getScan,
+  listScans,
+  NewScan,
+  ScanRecord,
+  ScanSummary,
+  updateScan,
+} from '@/utils/scanHistory';
+
+/**
+ * Scan history kept in IndexedDB. Writes are best-effort: a failing store
+ * (e.g. private browsing with storage disabled) is logged and never blocks OCR.
+ */
+export const useScanHistory = () => {
+  const [scans, setScans] = useState<ScanSummary[]>([]);
+
+  const refresh = useCallback(() => {
+    listScans()
+      .then(setScans)
+      .catch((e) => console.error('Failed to load scan history', e));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    listScans()
+      .then((loaded) => {
+        if (!cancelled) setScans(loaded);
+      })
+      .catch((e) => console.error('Failed to load scan history', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Resolves the new entry's id, or null if it could not be stored
+  const recordScan = useCallback(async (scan: Omit<NewScan, 'thumbnail'>): Promise<string | null> => {
+    const url = URL.createObjectURL(scan.image);
+    try {
+      const thumbnail = await createThumbnail(url);
+      const id = await addScan({ ...scan, thumbnail });
+      refresh();
+      return id;
+    } catch (e) {
+      console.error('Failed to save scan to history', e);
+      return null;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }, [refresh]);
+
+  const updateEntry = useCallback(async (id: string, patch: Partial<Omit<ScanRecord, 'id' | 'createdAt'>>) => {
+    try {
+      await updateScan(id, patch);
+      refresh();
+    } catch (e) {
+      console.error('Failed to update scan history', e);
+    }
+  }, [refresh]);
+
+  const removeEntry = useCallback(async (id: string) => {
+    try {
+      await deleteScan(id);
+      setScans((prev) => prev.filter((scan) => scan.id !== id));
+    } catch (e) {
+      console.error('Failed to delete scan from history', e);
+    }
+  }, []);
+
+  const loadEntry = useCallback(async (id: string): Promise<ScanRecord | null> => {
+    try {
+      return await getScan(id);
+    } catch (e) {
+      console.error('Failed to load scan from history', e);
+      return null;
+    }
+  }, []);
+
+  return { scans, recordScan, updateEntry, removeEntry, loadEntry };
+};
@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const postToServiceWorker = (message: unknown) => {
+  navigator.serviceWorker.ready
+    .then((registration) => registration.active?.postMessage(message))
+    .catch((e) => console.error('Service worker unavailable', e));
+};
+
+/**
+ * Registers the offline service worker (production builds only; in development
+ * it would serve stale chunks) and asks it to keep the selected languages' traineddata.
+ */
+export const useServiceWorker = (languages: string) => {
+  const isEnabled = typeof navigator !== 'undefined' && 'serviceWorker' in navigator && process.env.NODE_ENV === 'production';
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then(() => {
+        // Chunks loaded before the worker controlled this page would otherwise miss the cache
+        const urls = performance
+          .getEntriesByType('resource')
+          .map((entry) => entry.name)
+          .filter((url) => new URL(url).origin === location.origin && !new URL(url).pathname.startsWith('/api/'));
+        postToServiceWorker({ type: 'CACHE_URLS', urls });
+      })
+      .catch((e) => console.error('Service worker registration failed', e));
+  }, [isEnabled]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    postToServiceWorker({ type: 'CACHE_LANGUAGES', languages: languages.split('+') });
+  }, [isEnabled, languages]);
+};
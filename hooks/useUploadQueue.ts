@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  enqueueUpload,
+  flushUploadQueue,
+  listQueuedUploads,
+  QueuedUpload,
+  removeQueuedUpload,
+  retryFailedUpload,
+  UploadPayload,
+  UploadSender,
+} from '@/utils/uploadQueue';
+
+/**
+ * Tracks connectivity and keeps uploads made while offline in a local queue,
+ * which is flushed on load and whenever the browser comes back online.
+ * Uploads the server rejected are kept in `failed` until retried or discarded.
+ */
+export const useUploadQueue = (send: UploadSender) => {
+  // Starts as online like the server render; the effect reads the real state after hydration
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failed, setFailed] = useState<QueuedUpload[]>([]);
+
+  // The sender closes over page state; the queue always uses the latest one
+  const sendRef = useRef(send);
+  const flushingRef = useRef(false);
+
+  useEffect(() => {
+    sendRef.current = send;
+  }, [send]);
+
+  const refresh = useCallback(async () => {
+    const queued = await listQueuedUploads();
+    setFailed(queued.filter((upload) => upload.failed));
+    return queued.filter((upload) => !upload.failed).length;
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      await flushUploadQueue((payload, idempotencyKey) => sendRef.current(payload, idempotencyKey));
+      setPendingCount(await refresh());
+    } catch (e) {
+      console.error('Failed to flush upload queue', e);
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const goOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    setIsOnline(navigator.onLine);
+
+    refresh()
+      .then((pending) => {
+        setPendingCount(pending);
+        if (pending > 0 && navigator.onLine) flush();
+      })
+      .catch((e) => console.error('Failed to read upload queue', e));
+
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [flush, refresh]);
+
+  const enqueue = useCallback(async (payload: UploadPayload, idempotencyKey?: string) => {
+    await enqueueUpload(payload, idempotencyKey);
+    setPendingCount((count) => count + 1);
+  }, []);
+
+  const retry = useCallback(async (upload: QueuedUpload) => {
+    await retryFailedUpload(upload);
+    setPendingCount(await refresh());
+    if (navigator.onLine) flush();
+  }, [flush, refresh]);
+
+  const discard = useCallback(async (id: number) => {
+    await removeQueuedUpload(id);
+    await refresh();
+  }, [refresh]);
+
+  return { isOnline, pendingCount, failed, enqueue, flush, retry, discard };
+};
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+import { fetchUploadSession, signInWithApiKey, signOutUploadSession, UploadSession } from '@/utils/uploadSession';
+
+/**
+ * Whether this browser is signed in for uploads. `session` is null until the
+ * server has answered (or when it could not be reached).
+ */
+export const useUploadSession = () => {
+  const [session, setSession] = useState<UploadSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUploadSession()
+      .then((next) => {
+        if (!cancelled) setSession(next);
+      })
+      .catch((e) => console.error('Failed to load upload session', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Resolves an error message, or null once signed in
+  const signIn = useCallback(async (apiKey: string): Promise<string | null> => {
+    try {
+      setSession(await signInWithApiKey(apiKey));
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : 'Sign-in failed';
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      setSession(await signOutUploadSession());
+    } catch (e) {
+      console.error('Failed to sign out', e);
+    }
+  }, []);
+
+  // The server rejected the cookie (expired or revoked key)
+  const markSignedOut = useCallback(() => {
+    setSession((prev) => (prev ? { ...prev, authenticated: false, name: null } : prev));
+  }, []);
+
+  return { session, signIn, signOut, markSignedOut };
+};
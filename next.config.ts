@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded from node_modules at runtime: tesseract.js starts its Node workers from files next to it
+  serverExternalPackages: ['tesseract.js'],
 };
 
 export default nextConfig;
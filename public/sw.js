@@ -0,0 +1,105 @@
+/**
+ * Service worker for offline use
+ * - Precaches the app shell, the self-hosted tesseract worker/cores and the
+ *   word list on install
+ * - Caches the .traineddata of the languages the page selects (CACHE_LANGUAGES)
+ *   and the assets the page had already loaded before this worker took over (CACHE_URLS)
+ * - Static assets are served cache-first; pages network-first, falling back to
+ *   the cached shell. API calls are never cached.
+ * Bump VERSION when the tesseract assets or the precache list change.
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `amharic-ocr-shell-${VERSION}`;
+const ASSET_CACHE = `amharic-ocr-assets-${VERSION}`;
+
+const PRECACHE_URLS = [
+    '/',
+    '/manifest.webmanifest',
+    '/icon.svg',
+    '/dictionaries/amh-words.txt',
+    '/tesseract/worker.min.js',
+    // tesseract.js picks one of these at runtime depending on WebAssembly SIMD support
+    '/tesseract/tesseract-core-lstm.wasm.js',
+    '/tesseract/tesseract-core-simd-lstm.wasm.js',
+    '/tesseract/tesseract-core-relaxedsimd-lstm.wasm.js',
+];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(PRECACHE_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys
+                    .filter((key) => key.startsWith('amharic-ocr-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+                    .map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Adds URLs that are not cached yet; one failing URL does not stop the others
+const cacheMissing = async (cacheName, urls) => {
+    const cache = await caches.open(cacheName);
+    await Promise.all(urls.map(async (url) => {
+        if (await caches.match(url)) return;
+        try {
+            await cache.add(url);
+        } catch (e) {
+            console.warn(`Could not cache ${url}`, e);
+        }
+    }));
+};
+
+self.addEventListener('message', (event) => {
+    const message = event.data;
+    if (message?.type === 'CACHE_LANGUAGES') {
+        const urls = message.languages.map((language) => `/tessdata/${language}.traineddata`);
+        event.waitUntil(cacheMissing(ASSET_CACHE, urls));
+    } else if (message?.type === 'CACHE_URLS') {
+        const urls = message.urls.filter((url) => new URL(url, self.location.origin).origin === self.location.origin);
+        event.waitUntil(cacheMissing(ASSET_CACHE, urls));
+    }
+});
+
+const networkFirst = async (request) => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            await cache.put(request, response.clone());
+        }
+        return response;
+    } catch {
+        return (await caches.match(request)) ?? (await caches.match('/')) ?? Response.error();
+    }
+};
+
+const cacheFirst = async (request) => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(ASSET_CACHE);
+        await cache.put(request, response.clone());
+    }
+    return response;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+    event.respondWith(request.mode === 'navigate' ? networkFirst(request) : cacheFirst(request));
+});
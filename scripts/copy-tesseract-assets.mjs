@@ -0,0 +1,31 @@
+// Copies the tesseract.js worker and LSTM cores into public/tesseract so OCR
+// never depends on the CDN and the service worker can precache them.
+import { copyFileSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+const target = join(process.cwd(), 'public', 'tesseract');
+
+const tesseractPackage = require.resolve('tesseract.js/package.json');
+const workerDir = join(dirname(tesseractPackage), 'dist');
+// The core is tesseract.js's own dependency: resolve it from there, wherever npm placed it
+const coreDir = dirname(createRequire(tesseractPackage).resolve('tesseract.js-core/package.json'));
+
+// The LSTM cores serve the default engine mode; the larger full cores are
+// only loaded when a legacy engine mode is picked in the advanced settings
+const files = [
+    [workerDir, 'worker.min.js'],
+    [coreDir, 'tesseract-core-lstm.wasm.js'],
+    [coreDir, 'tesseract-core-simd-lstm.wasm.js'],
+    [coreDir, 'tesseract-core-relaxedsimd-lstm.wasm.js'],
+    [coreDir, 'tesseract-core.wasm.js'],
+    [coreDir, 'tesseract-core-simd.wasm.js'],
+    [coreDir, 'tesseract-core-relaxedsimd.wasm.js'],
+];
+
+mkdirSync(target, { recursive: true });
+for (const [dir, name] of files) {
+    copyFileSync(join(dir, name), join(target, name));
+}
+console.log(`Copied ${files.length} tesseract assets to public/tesseract`);
@@ -0,0 +1,23 @@
+// Generates a new upload API key and the UPLOAD_API_KEYS entry for it.
+// Only the entry (with the hash) goes into the server environment; the key
+// itself is handed to the uploader and cannot be recovered later.
+//
+//   node scripts/create-api-key.mjs <id> "<name>" [uploads per minute]
+import { createHash, randomBytes } from 'node:crypto';
+
+const [id, name, rateLimit] = process.argv.slice(2);
+if (!id || !name) {
+    console.error('Usage: node scripts/create-api-key.mjs <id> "<name>" [uploads per minute]');
+    process.exit(1);
+}
+
+const key = `aocr_${randomBytes(32).toString('base64url')}`;
+const entry = {
+    id,
+    name,
+    hash: createHash('sha256').update(key).digest('hex'),
+    ...(rateLimit && { rateLimit: Number(rateLimit) }),
+};
+
+console.log(`API key (give this to ${name}):\n  ${key}\n`);
+console.log(`Add to the UPLOAD_API_KEYS array:\n  ${JSON.stringify(entry)}`);
@@ -0,0 +1,313 @@
+// Bulk OCR for folders of scanned pages, with the same preprocessing and
+// Tesseract code as /api/ocr. Writes <image>.txt and <image>.json, e.g.
+// page.jpg.txt (confidence and word boxes in the .json) for every image, next
+// to it or under --out in the same folders.
+// A page whose .json exists is skipped, so an interrupted run resumes where it
+// stopped; a page whose image changed since is recognized again.
+//
+//   npm run ocr -- <directory | glob> [options]
+//     --lang amh+eng        languages installed in public/tessdata (default amh)
+//     --concurrency 2       pages recognized in parallel, one Tesseract worker each
+//     --out ocr-output      write results here instead of next to the images
+//     --no-preprocess       recognize the images as they are
+//     --preprocess '{...}'  preprocessing options as JSON, e.g. '{"deskew":true}'
+//     --upload http://localhost:3000
+//                           also POST every result to /api/upload-lyrics with the
+//                           API key in AOCR_API_KEY; pages already uploaded are skipped,
+//                           and so are likely duplicates of earlier uploads (the server
+//                           answers 409), which are listed instead
+//     --allow-duplicates    upload likely duplicates anyway, tagged for review
+//     --force               recognize every page again
+//
+// Globs are quoted so the shell leaves them alone: "scans/**/*.{jpg,png}"
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { dirname, extname, join, relative, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { createJiti } from 'jiti';
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.tif', '.tiff', '.gif']);
+const GLOB_CHARACTERS = /[*?{]/;
+
+const usage = () => {
+    console.error('Usage: npm run ocr -- <directory | glob> [--lang amh] [--concurrency 1] [--out dir]');
+    console.error('         [--no-preprocess | --preprocess <json>] [--upload <app url> [--allow-duplicates]] [--force]');
+    process.exit(1);
+};
+
+let args;
+try {
+    args = parseArgs({
+        allowPositionals: true,
+        options: {
+            lang: { type: 'string', default: 'amh' },
+            concurrency: { type: 'string', default: '1' },
+            out: { type: 'string' },
+            preprocess: { type: 'string' },
+            'no-preprocess': { type: 'boolean', default: false },
+            upload: { type: 'string' },
+            'allow-duplicates': { type: 'boolean', default: false },
+            force: { type: 'boolean', default: false },
+        },
+    });
+} catch (error) {
+    console.error(error.message);
+    usage();
+}
+
+const { values: options, positionals } = args;
+if (positionals.length !== 1) usage();
+
+const concurrency = Number(options.concurrency);
+if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error('--concurrency must be a positive whole number');
+    process.exit(1);
+}
+
+const apiKey = process.env.AOCR_API_KEY;
+if (options.upload && !apiKey) {
+    console.error('--upload needs the uploader API key in AOCR_API_KEY');
+    process.exit(1);
+}
+
+// One Tesseract worker per parallel page; read when the pool is created
+process.env.OCR_WORKERS = String(concurrency);
+
+// The shared TypeScript modules, with the @/ imports the app uses
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const jiti = createJiti(import.meta.url, { alias: { '@/': `${root}/` } });
+const { recognizeImageBuffer, terminateOcrWorkers } = await jiti.import(join(root, 'utils/server/ocr.ts'));
+const { listLanguagePacks } = await jiti.import(join(root, 'utils/server/tessdata.ts'));
+const { parsePreprocess } = await jiti.import(join(root, 'utils/server/ocrOptions.ts'));
+const { groupLines, locateWords } = await jiti.import(join(root, 'utils/ocrWords.ts'));
+const { compactLyrics, detectLyrics, validateLyricsDocument } = await jiti.import(join(root, 'utils/lyrics.ts'));
+
+// Checked like the API's preprocess field, so a typo or a huge upscale fails up front
+let preprocess = null;
+if (!options['no-preprocess']) {
+    const parsed = parsePreprocess(options.preprocess ?? null);
+    if ('error' in parsed) {
+        console.error(`--preprocess: ${parsed.error}`);
+        process.exit(1);
+    }
+    preprocess = parsed.value;
+}
+
+// Fail before starting: tesseract.js never settles when a model file is missing
+const installed = (await listLanguagePacks().catch(() => [])).map((pack) => pack.code);
+const missing = options.lang.split('+').filter((code) => !installed.includes(code));
+if (missing.length > 0) {
+    console.error(`Languages not installed in public/tessdata: ${missing.join(', ')} (installed: ${installed.join(', ') || 'none'})`);
+    process.exit(1);
+}
+
+/**
+ * Glob to regular expression for paths relative to the glob's base folder:
+ * ** spans folders, * and ? stay within one, {a,b} picks an alternative.
+ */
+const globToRegExp = (glob) => {
+    let pattern = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*' && glob[i + 1] === '*') {
+            pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (c === '*') pattern += '[^/]*';
+        else if (c === '?') pattern += '[^/]';
+        else if (c === '{') {
+            pattern += '(?:';
+            braces++;
+        } else if (c === '}' && braces > 0) {
+            pattern += ')';
+            braces--;
+        } else if (c === ',' && braces > 0) pattern += '|';
+        else pattern += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${pattern}$`);
+};
+
+const walk = async (dir) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(entries.map((entry) => {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) return walk(path);
+        return entry.isFile() ? [path] : [];
+    }));
+    return files.flat();
+};
+
+/**
+ * Images to recognize, sorted so runs (and resumes) go in the same order,
+ * and the folder output paths are relative to.
+ */
+const findImages = async (input) => {
+    let base = input;
+    let matcher = null;
+    if (GLOB_CHARACTERS.test(input)) {
+        const segments = input.split('/');
+        const firstGlob = segments.findIndex((segment) => GLOB_CHARACTERS.test(segment));
+        base = segments.slice(0, firstGlob).join('/') || '.';
+        matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+    }
+
+    base = resolve(base);
+    const files = (await walk(base)).filter((file) =>
+        IMAGE_EXTENSIONS.has(extname(file).toLowerCase()) &&
+        (!matcher || matcher.test(relative(base, file).split(sep).join('/')))
+    );
+    return { base, files: files.sort() };
+};
+
+// The image's own extension stays in the name, so page.jpg and page.png do not share outputs
+const outputPaths = (base, file) => {
+    const target = options.out ? join(resolve(options.out), relative(base, file)) : file;
+    return { txt: `${target}.txt`, json: `${target}.json` };
+};
+
+const readResult = async (path) => {
+    try {
+        return JSON.parse(await readFile(path, 'utf8'));
+    } catch {
+        return null; // Missing, or cut short by an earlier crash
+    }
+};
+
+// Temporary name plus rename: an interrupted write never looks finished
+const writeAtomically = async (path, content) => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, content);
+    await rename(`${path}.tmp`, path);
+};
+
+/**
+ * Sends a result in the UploadLyricsRequest shape. The idempotency key comes
+ * from the image, so uploading a page again never stores it twice.
+ */
+const uploadResult = async (result) => {
+    const lines = groupLines(locateWords(result.text, result.words));
+    const lyrics = compactLyrics(detectLyrics(result.text, lines));
+    const response = await fetch(new URL('/api/upload-lyrics', options.upload), {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${apiKey}`,
+            'Idempotency-Key': `cli-${result.source.sha256.slice(0, 48)}`,
+        },
+        body: JSON.stringify({
+            text: result.text,
+            ...(validateLyricsDocument(lyrics).length === 0 && { lyrics }),
+            metadata: {
+                confidence: result.confidence,
+                language: result.languages,
+                timestamp: new Date().toISOString(),
+                source: 'cli',
+                file: result.file,
+            },
+            ...(options['allow-duplicates'] && { duplicate: { action: 'upload' } }),
+        }),
+    });
+
+    if (response.status === 401) throw Object.assign(new Error('Upload key rejected (401)'), { fatal: true });
+    const body = await response.json().catch(() => null);
+    if (response.status === 409 && body?.duplicate) {
+        return { ok: false, status: 409, at: new Date().toISOString(), duplicate: body.duplicate, message: body.message };
+    }
+    return { ok: response.ok, status: response.status, at: new Date().toISOString(), destinations: body?.destinations };
+};
+
+const processImage = async (base, file) => {
+    const { txt, json } = outputPaths(base, file);
+    const info = await stat(file);
+    const previous = options.force ? null : await readResult(json);
+    const unchanged = previous?.source?.size === info.size && previous?.source?.mtimeMs === info.mtimeMs;
+
+    let result = unchanged ? previous : null;
+    let recognized = false;
+    if (!result) {
+        const image = await readFile(file);
+        const page = await recognizeImageBuffer(image, options.lang, preprocess);
+        result = {
+            file: relative(base, file),
+            languages: options.lang,
+            ...page,
+            source: {
+                size: info.size,
+                mtimeMs: info.mtimeMs,
+                sha256: createHash('sha256').update(image).digest('hex'),
+            },
+            createdAt: new Date().toISOString(),
+        };
+        recognized = true;
+        // The .json goes last: its presence marks the page as done
+        await writeAtomically(txt, `${result.text.trim()}\n`);
+        await writeAtomically(json, JSON.stringify(result, null, 2));
+    }
+
+    // A known duplicate waits for --allow-duplicates instead of asking the server every run
+    const skipDuplicate = result.upload?.duplicate && !options['allow-duplicates'];
+    let uploaded = false;
+    if (options.upload && !result.upload?.ok && !skipDuplicate) {
+        result.upload = await uploadResult(result);
+        uploaded = true;
+        await writeAtomically(json, JSON.stringify(result, null, 2));
+    }
+    return { result, recognized, uploaded };
+};
+
+const { base, files } = await findImages(positionals[0]);
+if (files.length === 0) {
+    console.error(`No images found for ${positionals[0]}`);
+    process.exit(1);
+}
+console.log(`${files.length} images, languages ${options.lang}, ${concurrency} at a time`);
+
+// First Ctrl+C finishes the pages in progress, so nothing is left half written
+let stopping = false;
+process.on('SIGINT', () => {
+    if (stopping) process.exit(130);
+    stopping = true;
+    console.log('\nStopping after the pages in progress; run the same command again to resume (Ctrl+C again to quit now)');
+});
+
+const counts = { recognized: 0, skipped: 0, uploaded: 0, duplicates: 0, failed: 0 };
+let next = 0;
+let fatal = null;
+
+const runner = async () => {
+    while (!stopping && !fatal && next < files.length) {
+        const index = next++;
+        const file = files[index];
+        const label = `[${index + 1}/${files.length}] ${relative(base, file)}`;
+        try {
+            const { result, recognized, uploaded } = await processImage(base, file);
+            counts[recognized ? 'recognized' : 'skipped']++;
+            const duplicate = options.upload && !result.upload?.ok && result.upload?.duplicate;
+            if (duplicate) counts.duplicates++;
+            else if (uploaded && result.upload.ok) counts.uploaded++;
+            else if (uploaded) counts.failed++;
+
+            const parts = [recognized ? `${result.confidence.toFixed(1)}%` : 'done before'];
+            if (duplicate && uploaded) parts.push(`not uploaded: ${result.upload.message}`);
+            else if (uploaded) parts.push(result.upload.ok ? `uploaded (${result.upload.status})` : `upload failed (${result.upload.status})`);
+            if (recognized || uploaded) console.log(`${label}  ${parts.join(', ')}`);
+        } catch (error) {
+            if (error.fatal) {
+                fatal = error;
+                break;
+            }
+            counts.failed++;
+            console.error(`${label}  failed: ${error.message}`);
+        }
+    }
+};
+
+await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, runner));
+await terminateOcrWorkers();
+
+console.log(`\nRecognized ${counts.recognized}, already done ${counts.skipped}, uploaded ${counts.uploaded}, failed ${counts.failed}`);
+if (counts.duplicates > 0) console.log(`${counts.duplicates} likely duplicates not uploaded; add --allow-duplicates to upload them anyway`);
+if (fatal) console.error(fatal.message);
+if (stopping) console.log('Interrupted; run the same command again to resume');
+process.exit(fatal || counts.failed > 0 ? 1 : stopping ? 130 : 0);
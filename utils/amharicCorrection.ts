@@ -0,0 +1,205 @@
+/**
+ * Post-OCR correction engine for Amharic
+ * Produces a list of suggested changes (never applies them by itself):
+ * - Punctuation: Latin "::", ".", ",", ";" and ":" after fidel become ። ፣ ፤ ፡
+ * - Look-alikes: Latin characters inside fidel words (U -> ሀ, h -> ከ, + -> ተ, ...)
+ * - Confusion pairs: unknown words are compared against the frequency
+ *   dictionary with confusable fidel swapped (ሀ/ሃ, ሰ/ሠ, ጸ/ፀ, ...)
+ */
+
+import { WordDictionary, wordFrequency } from '@/utils/amharicDictionary';
+import { decomposeFidel, homophoneSeries, isFidel } from '@/utils/fidel';
+
+export type CorrectionKind = 'punctuation' | 'lookalike' | 'confusion';
+
+export interface Correction {
+    id: string;
+    kind: CorrectionKind;
+    start: number; // Offsets in the text the corrections were computed on
+    end: number;
+    original: string;
+    replacement: string;
+    reason: string;
+}
+
+// Latin characters Tesseract returns for visually similar fidel
+const LOOKALIKES: Record<string, string> = {
+    U: 'ሀ',
+    u: 'ሀ',
+    h: 'ከ',
+    m: 'መ',
+    w: 'ሠ',
+    O: 'ዐ',
+    o: 'ዐ',
+    0: 'ዐ',
+    '+': 'ተ',
+};
+
+// Vowel orders that only differ by a small stroke, e.g. ሀ (1st) / ሃ (4th)
+const CONFUSABLE_ORDERS: [number, number][] = [[0, 3]];
+
+// More than two swapped characters in one word is more likely a real unknown word
+const MAX_SUBSTITUTIONS = 2;
+
+// Matches the letter before the punctuation, so the correction can start after it
+const PUNCTUATION_RULES: { pattern: RegExp; replacement: string; reason: string }[] = [
+    { pattern: /([ሀ-ፚ])([ \t]*(?:::|: :|፡፡|፡ ፡|\.))(?=\s|$)/g, replacement: '።', reason: 'Full stop (።)' },
+    { pattern: /([ሀ-ፚ])([ \t]*,)/g, replacement: '፣', reason: 'Comma (፣)' },
+    { pattern: /([ሀ-ፚ])([ \t]*;)/g, replacement: '፤', reason: 'Semicolon (፤)' },
+    { pattern: /([ሀ-ፚ])(:)(?=[ሀ-ፚ])/g, replacement: '፡', reason: 'Word separator (፡)' },
+    { pattern: /([ሀ-ፚ])([ \t]+)(?=[።፣፤፥፦])/g, replacement: '', reason: 'Space before punctuation' },
+];
+
+// A run of fidel, possibly containing Latin look-alikes
+const WORD_PATTERN = /[ሀ-ፚUuhmwOo0+]+/g;
+
+/**
+ * Characters a fidel may have been confused with.
+ */
+const confusablesOf = (char: string): string[] => {
+    const parts = decomposeFidel(char);
+    if (!parts) return [];
+    const { base, order } = parts;
+    const result = new Set<number>();
+
+    if (order <= 6) {
+        homophoneSeries(base)?.forEach((other) => result.add(other + order));
+    }
+    for (const [a, b] of CONFUSABLE_ORDERS) {
+        if (order === a) result.add(base + b);
+        if (order === b) result.add(base + a);
+    }
+    result.delete(base + order);
+    return Array.from(result, (c) => String.fromCodePoint(c));
+};
+
+/**
+ * The most frequent dictionary word reachable from `word` by swapping up to
+ * MAX_SUBSTITUTIONS confusable characters, or null if there is none.
+ */
+const bestConfusionFix = (word: string, dictionary: WordDictionary): string | null => {
+    const chars = Array.from(word);
+    const best = { word: '', frequency: 0 };
+
+    const search = (from: number, current: string[], substitutions: number) => {
+        for (let i = from; i < current.length; i++) {
+            for (const alternative of confusablesOf(chars[i])) {
+                const next = [...current];
+                next[i] = alternative;
+                const candidate = next.join('');
+                const frequency = wordFrequency(dictionary, candidate);
+                if (frequency > best.frequency) {
+                    best.word = candidate;
+                    best.frequency = frequency;
+                }
+                if (substitutions + 1 < MAX_SUBSTITUTIONS) search(i + 1, next, substitutions + 1);
+            }
+        }
+    };
+    search(0, chars, 0);
+    return best.frequency > 0 ? best.word : null;
+};
+
+const describeSwap = (original: string, replacement: string) => {
+    const a = Array.from(original);
+    const b = Array.from(replacement);
+    return a
+        .map((char, i) => (char !== b[i] ? `${char} → ${b[i]}` : null))
+        .filter(Boolean)
+        .join(', ');
+};
+
+const suggestPunctuation = (text: string): Correction[] => {
+    const corrections: Correction[] = [];
+    for (const rule of PUNCTUATION_RULES) {
+        for (const match of text.matchAll(rule.pattern)) {
+            const start = (match.index ?? 0) + match[1].length;
+            corrections.push({
+                id: `punctuation:${start}`,
+                kind: 'punctuation',
+                start,
+                end: start + match[2].length,
+                original: match[2],
+                replacement: rule.replacement,
+                reason: rule.reason,
+            });
+        }
+    }
+    return corrections;
+};
+
+const suggestWords = (text: string, dictionary: WordDictionary): Correction[] => {
+    const corrections: Correction[] = [];
+
+    for (const match of text.matchAll(WORD_PATTERN)) {
+        const original = match[0];
+        const start = match.index ?? 0;
+        const chars = Array.from(original);
+        if (!chars.some((char) => isFidel(char))) continue;
+
+        // Latin look-alikes only count when they sit next to fidel
+        const fixed = chars.map((char, i) => {
+            const lookalike = LOOKALIKES[char];
+            if (!lookalike) return char;
+            return isFidel(chars[i - 1]) || isFidel(chars[i + 1]) ? lookalike : char;
+        });
+        if (fixed.some((char) => !isFidel(char))) continue; // Mixed script, leave it alone
+
+        let replacement = fixed.join('');
+        let kind: CorrectionKind = 'lookalike';
+        let reason = replacement !== original ? `Latin look-alike: ${describeSwap(original, replacement)}` : '';
+
+        if (wordFrequency(dictionary, replacement) === 0) {
+            const fix = bestConfusionFix(replacement, dictionary);
+            if (fix) {
+                const swaps = describeSwap(replacement, fix);
+                reason = reason ? `${reason}; ${swaps}` : `Confusable fidel: ${swaps}`;
+                replacement = fix;
+                kind = 'confusion';
+            }
+        }
+
+        if (replacement === original) continue;
+        corrections.push({ id: `word:${start}`, kind, start, end: start + original.length, original, replacement, reason });
+    }
+    return corrections;
+};
+
+/**
+ * Suggests corrections for OCR output, ordered by position.
+ */
+export const suggestCorrections = (text: string, dictionary: WordDictionary): Correction[] => {
+    const corrections = [...suggestPunctuation(text), ...suggestWords(text, dictionary)].sort((a, b) => a.start - b.start);
+
+    // Rules can overlap on the same characters; the earliest one wins
+    const result: Correction[] = [];
+    for (const correction of corrections) {
+        const previous = result[result.length - 1];
+        if (previous && correction.start < previous.end) continue;
+        result.push(correction);
+    }
+    return result;
+};
+
+// How far a correction may have moved when the text was edited after OCR
+const RELOCATE_WINDOW = 50;
+
+/**
+ * Applies the given corrections to `text`. Corrections are applied back to
+ * front so earlier offsets stay valid; if the text was edited in between, a
+ * correction is matched against the nearest occurrence of its original text.
+ */
+export const applyCorrections = (text: string, corrections: Correction[]): string => {
+    let result = text;
+    for (const correction of [...corrections].sort((a, b) => b.start - a.start)) {
+        let start = correction.start;
+        if (result.slice(start, correction.end) !== correction.original) {
+            const from = Math.max(0, start - RELOCATE_WINDOW);
+            const found = result.indexOf(correction.original, from);
+            if (found < 0 || found > start + RELOCATE_WINDOW) continue;
+            start = found;
+        }
+        result = result.slice(0, start) + correction.replacement + result.slice(start + correction.original.length);
+    }
+    return result;
+};
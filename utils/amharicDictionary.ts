@@ -0,0 +1,107 @@
+/**
+ * Amharic word frequency dictionary
+ * - Loaded once from public/dictionaries/amh-words.txt ("word frequency" per line)
+ * - Extra words can be merged in at runtime; words added while proofreading
+ *   are kept in localStorage so the lexicon grows with the corpus
+ * - Lookups strip common prepositional prefixes and suffixes, since Amharic
+ *   attaches them to the word (የ-, ለ-, በ-, -ን, -ም, ...)
+ */
+
+export type WordDictionary = Map<string, number>;
+
+export const DICTIONARY_URL = '/dictionaries/amh-words.txt';
+
+const PREFIXES = ['እንደ', 'ስለ', 'ወደ', 'እስከ', 'የ', 'ለ', 'በ', 'ከ', 'እ'];
+const SUFFIXES = ['ችን', 'ቸው', 'ዎች', 'ኦች', 'ን', 'ም', 'ና', 'ስ', 'ማ'];
+
+export const parseDictionary = (source: string): WordDictionary => {
+    const dictionary: WordDictionary = new Map();
+    for (const raw of source.split('\n')) {
+        const line = raw.trim();
+        if (!line || line.startsWith('#')) continue;
+        const [word, frequency] = line.split(/\s+/);
+        dictionary.set(word.normalize('NFC'), Number(frequency) || 1);
+    }
+    return dictionary;
+};
+
+let dictionaryPromise: Promise<WordDictionary> | null = null;
+
+/**
+ * Fetches and parses the bundled word list. The promise is shared, so the
+ * list is only downloaded once per page load.
+ */
+export const loadDictionary = (): Promise<WordDictionary> => {
+    if (!dictionaryPromise) {
+        dictionaryPromise = fetch(DICTIONARY_URL)
+            .then((res) => {
+                if (!res.ok) throw new Error(`Failed to load dictionary (${res.status})`);
+                return res.text();
+            })
+            .then(parseDictionary)
+            .catch((e) => {
+                dictionaryPromise = null; // Allow a retry later
+                throw e;
+            });
+    }
+    return dictionaryPromise;
+};
+
+/**
+ * Returns a new dictionary with the given words added (or boosted).
+ */
+export const extendDictionary = (dictionary: WordDictionary, words: Iterable<[string, number]>): WordDictionary => {
+    const extended = new Map(dictionary);
+    for (const [word, frequency] of words) {
+        extended.set(word, Math.max(extended.get(word) ?? 0, frequency));
+    }
+    return extended;
+};
+
+/**
+ * Frequency of a word, falling back to its stem with one prefix and/or one
+ * suffix removed. 0 means the word is unknown.
+ */
+export const wordFrequency = (dictionary: WordDictionary, word: string): number => {
+    const direct = dictionary.get(word);
+    if (direct) return direct;
+
+    const stems = [word];
+    for (const prefix of PREFIXES) {
+        if (word.length > prefix.length + 1 && word.startsWith(prefix)) stems.push(word.slice(prefix.length));
+    }
+
+    let best = 0;
+    for (const stem of stems) {
+        best = Math.max(best, dictionary.get(stem) ?? 0);
+        for (const suffix of SUFFIXES) {
+            if (stem.length > suffix.length + 1 && stem.endsWith(suffix)) {
+                best = Math.max(best, dictionary.get(stem.slice(0, -suffix.length)) ?? 0);
+            }
+        }
+    }
+    return best;
+};
+
+const USER_WORDS_KEY = 'amharic-ocr:user-words';
+
+// Proofread words count as reasonably common, above most of the rare bundled entries
+export const USER_WORD_FREQUENCY = 100;
+
+export const loadUserWords = (): string[] => {
+    try {
+        const raw = localStorage.getItem(USER_WORDS_KEY);
+        return raw ? (JSON.parse(raw) as string[]) : [];
+    } catch (e) {
+        console.error('Failed to load user dictionary', e);
+        return [];
+    }
+};
+
+export const saveUserWords = (words: string[]) => {
+    try {
+        localStorage.setItem(USER_WORDS_KEY, JSON.stringify(words));
+    } catch (e) {
+        console.error('Failed to save user dictionary', e);
+    }
+};
@@ -0,0 +1,93 @@
+/**
+ * Ethiopic spell-check
+ * - Flags fidel words that are not in the lexicon (affixed forms of known
+ *   words count as known)
+ * - Suggests replacements by an edit distance where swapping a fidel for
+ *   another vowel order of the same consonant, or for a homophone series,
+ *   costs less than an unrelated substitution
+ */
+
+import { WordDictionary, wordFrequency } from '@/utils/amharicDictionary';
+import { decomposeFidel, homophoneSeries } from '@/utils/fidel';
+import type { TextRange } from '@/utils/ocrWords';
+
+export interface Misspelling extends TextRange {
+    word: string;
+}
+
+const FIDEL_WORD = /[ሀ-ፚ]+/g;
+
+// Single fidel (often particles or OCR fragments) are not worth flagging
+const MIN_WORD_LENGTH = 2;
+
+// Suggestions further away than this are more confusing than helpful
+const MAX_DISTANCE = 2;
+
+export const findMisspellings = (text: string, dictionary: WordDictionary, ignored: Set<string> = new Set()): Misspelling[] => {
+    const misspellings: Misspelling[] = [];
+    for (const match of text.matchAll(FIDEL_WORD)) {
+        const word = match[0];
+        if (word.length < MIN_WORD_LENGTH || ignored.has(word)) continue;
+        if (wordFrequency(dictionary, word) > 0) continue;
+        const start = match.index ?? 0;
+        misspellings.push({ word, start, end: start + word.length });
+    }
+    return misspellings;
+};
+
+/**
+ * Cost of replacing one character with another, 0..1.
+ */
+const substitutionCost = (a: string, b: string): number => {
+    if (a === b) return 0;
+    const pa = decomposeFidel(a);
+    const pb = decomposeFidel(b);
+    if (!pa || !pb) return 1;
+
+    const sameSeries = homophoneSeries(pa.base)?.includes(pb.base) ?? false;
+    if (sameSeries && pa.order === pb.order) return 0.25; // ሰ / ሠ
+    if (pa.base === pb.base) return 0.5;                   // ሀ / ሃ
+    if (sameSeries) return 0.75;                           // ሰ / ሣ
+    return 1;
+};
+
+/**
+ * Weighted Levenshtein distance on code points.
+ */
+export const fidelDistance = (a: string, b: string): number => {
+    const x = Array.from(a);
+    const y = Array.from(b);
+    let previous = Array.from({ length: y.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= x.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= y.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + substitutionCost(x[i - 1], y[j - 1])
+            );
+        }
+        previous = current;
+    }
+    return previous[y.length];
+};
+
+/**
+ * Closest lexicon words, nearest first; equally close words are ordered by frequency.
+ */
+export const suggestSpellings = (word: string, dictionary: WordDictionary, limit: number = 5): string[] => {
+    const length = Array.from(word).length;
+    const candidates: { word: string; distance: number; frequency: number }[] = [];
+
+    for (const [entry, frequency] of dictionary) {
+        if (Math.abs(Array.from(entry).length - length) > MAX_DISTANCE) continue;
+        const distance = fidelDistance(word, entry);
+        if (distance <= MAX_DISTANCE) candidates.push({ word: entry, distance, frequency });
+    }
+
+    return candidates
+        .sort((a, b) => a.distance - b.distance || b.frequency - a.frequency)
+        .slice(0, limit)
+        .map((candidate) => candidate.word);
+};
@@ -0,0 +1,73 @@
+/**
+ * Tesseract engine options shown in the advanced OCR settings
+ * - The engine mode and the user word/pattern lists are only read when a
+ *   worker initializes, so the pool keeps workers per combination
+ * - Segmentation mode, character lists and spacing are set before every job
+ * - The last options are remembered in localStorage
+ */
+
+import { OEM, PSM } from 'tesseract.js';
+
+export interface EngineOptions {
+    psm: PSM;
+    oem: OEM;
+    whitelist: string;                // Only these characters may be recognized; empty allows all
+    blacklist: string;                // These characters are never recognized
+    preserveInterwordSpaces: boolean; // Keep runs of spaces instead of collapsing them to one
+    userWords: string;                // One word per line
+    userPatterns: string;             // One pattern per line, e.g. \d\d:\d\d
+}
+
+// Tesseract's library default is a single block, which is also what every
+// scan used before these options existed
+export const DEFAULT_ENGINE_OPTIONS: EngineOptions = {
+    psm: PSM.SINGLE_BLOCK,
+    oem: OEM.LSTM_ONLY,
+    whitelist: '',
+    blacklist: '',
+    preserveInterwordSpaces: false,
+    userWords: '',
+    userPatterns: '',
+};
+
+export const PSM_OPTIONS: { value: PSM; label: string; hint: string }[] = [
+    { value: PSM.AUTO, label: 'Automatic', hint: 'Finds columns and blocks on its own. Good for two-column hymnals.' },
+    { value: PSM.SINGLE_COLUMN, label: 'Single column', hint: 'One column of lines of varying size, like most lyric sheets.' },
+    { value: PSM.SINGLE_BLOCK, label: 'Single block', hint: 'One uniform block of text. The default.' },
+    { value: PSM.SINGLE_LINE, label: 'Single line', hint: 'The image is one line of text, e.g. a cropped title.' },
+    { value: PSM.SINGLE_WORD, label: 'Single word', hint: 'The image is one word.' },
+    { value: PSM.SPARSE_TEXT, label: 'Sparse text', hint: 'Finds as much text as possible in no particular order, e.g. posters.' },
+    { value: PSM.AUTO_OSD, label: 'Automatic + orientation', hint: 'Like automatic, but also detects rotated pages. Needs the osd pack.' },
+];
+
+export const OEM_OPTIONS: { value: OEM; label: string; hint: string }[] = [
+    { value: OEM.LSTM_ONLY, label: 'Neural net (LSTM)', hint: 'The modern engine. Most accurate for Ethiopic script.' },
+    { value: OEM.TESSERACT_ONLY, label: 'Legacy', hint: 'The pattern-matching engine. Needs packs that include legacy data.' },
+    { value: OEM.TESSERACT_LSTM_COMBINED, label: 'Legacy + LSTM', hint: 'Runs both engines. Slower; needs packs that include legacy data.' },
+];
+
+// The Ethiopic block (U+1200–U+137F): syllables, punctuation and numerals
+export const ETHIOPIC_CHARACTERS = Array.from({ length: 0x1380 - 0x1200 }, (_, i) => String.fromCodePoint(0x1200 + i)).join('');
+
+const ENGINE_OPTIONS_KEY = 'amharic-ocr:engine-options';
+
+export const sameEngineOptions = (a: EngineOptions, b: EngineOptions) =>
+    (Object.keys(a) as (keyof EngineOptions)[]).every((key) => a[key] === b[key]);
+
+export const loadEngineOptions = (): EngineOptions => {
+    try {
+        const raw = localStorage.getItem(ENGINE_OPTIONS_KEY);
+        return raw ? { ...DEFAULT_ENGINE_OPTIONS, ...(JSON.parse(raw) as Partial<EngineOptions>) } : DEFAULT_ENGINE_OPTIONS;
+    } catch (e) {
+        console.error('Failed to load engine options', e);
+        return DEFAULT_ENGINE_OPTIONS;
+    }
+};
+
+export const saveEngineOptions = (options: EngineOptions) => {
+    try {
+        localStorage.setItem(ENGINE_OPTIONS_KEY, JSON.stringify(options));
+    } catch (e) {
+        console.error('Failed to save engine options', e);
+    }
+};
@@ -0,0 +1,277 @@
+/**
+ * Structured exports of an OCR result
+ * - JSON: text, song structure, confidence and word boxes
+ * - LRC / SRT: one cue per sung line, with placeholder timings to be adjusted
+ *   in a karaoke timing tool
+ * - Markdown: title, credits and one heading per section
+ * - hOCR / ALTO: the recognized layout with Tesseract's bounding boxes
+ *   (these describe the words as recognized, not later edits)
+ */
+
+import type { Bbox, Page } from 'tesseract.js';
+import type { LyricsDocument } from '@/utils/lyrics';
+import type { OCRWord } from '@/utils/ocrWords';
+
+export type ExportFormat = 'txt' | 'json' | 'lrc' | 'srt' | 'md' | 'hocr' | 'alto';
+
+export interface ExportFormatInfo {
+    format: ExportFormat;
+    label: string;
+    extension: string;
+    mimeType: string;
+    needsLayout?: boolean; // Only available when word boxes exist (single-image scans)
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { format: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+    { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+    { format: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+    { format: 'lrc', label: 'LRC lyrics', extension: 'lrc', mimeType: 'text/plain' },
+    { format: 'srt', label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip' },
+    { format: 'hocr', label: 'hOCR', extension: 'hocr.html', mimeType: 'text/html', needsLayout: true },
+    { format: 'alto', label: 'ALTO XML', extension: 'alto.xml', mimeType: 'application/xml', needsLayout: true },
+];
+
+export interface ExportInput {
+    text: string;
+    lyrics: LyricsDocument;
+    sourceName?: string;      // Original file name, e.g. "hymn-12.jpg"
+    languages: string;        // Tesseract language string, e.g. "amh+eng"
+    confidence: number;
+    words: OCRWord[];
+    page: Page | null;
+    imageSize: { width: number; height: number } | null;
+    pages?: number;           // Set for batch results
+}
+
+const DEFAULT_BASENAME = 'amharic_ocr_result';
+
+// Seconds between placeholder cues in LRC/SRT skeletons
+const CUE_SECONDS = 4;
+
+/**
+ * Download name for an export, derived from the source image name.
+ */
+export const exportFilename = (sourceName: string | undefined, format: ExportFormat): string => {
+    const info = EXPORT_FORMATS.find((f) => f.format === format);
+    const base = (sourceName ?? '')
+        .replace(/\.[^.]+$/, '')
+        .replace(/[\\/:*?"<>|\s]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+    return `${base || DEFAULT_BASENAME}.${info?.extension ?? format}`;
+};
+
+/**
+ * Display labels for the sections: the label written on the sheet when there
+ * is one, otherwise "Verse 1", "Verse 2", "Chorus", ...
+ */
+export const sectionLabels = (lyrics: LyricsDocument): string[] => {
+    let verse = 0;
+    return lyrics.sections.map((section) => {
+        if (section.kind === 'verse') verse++;
+        if (section.label) return section.label;
+        if (section.kind === 'verse') return `Verse ${verse}`;
+        return section.kind === 'chorus' ? 'Chorus' : 'Bridge';
+    });
+};
+
+/**
+ * Lines in the order they are sung, with repeated sections written out.
+ * Falls back to the non-empty lines of the text when no structure was found.
+ */
+const sungLines = (input: ExportInput): string[] => {
+    if (input.lyrics.sections.length === 0) {
+        return input.text.split('\n').map((line) => line.trim()).filter(Boolean);
+    }
+    return input.lyrics.sections.flatMap((section) =>
+        Array.from({ length: section.repeat }, () => section.lines.map((line) => line.trim()).filter(Boolean)).flat()
+    );
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const lrcTimestamp = (seconds: number) => `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}.00`;
+
+const srtTimestamp = (seconds: number) =>
+    `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)},000`;
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Tesseract language codes to BCP 47 for the hOCR/ALTO language attributes
+const LANGUAGE_TAGS: Record<string, string> = { amh: 'am', eng: 'en' };
+
+const languageTag = (languages: string) => LANGUAGE_TAGS[languages.split('+')[0]] ?? languages.split('+')[0];
+
+const toJson = (input: ExportInput): string =>
+    JSON.stringify({
+        source: input.sourceName ?? null,
+        exportedAt: new Date().toISOString(),
+        languages: input.languages,
+        confidence: Number(input.confidence.toFixed(2)),
+        ...(input.pages !== undefined && { pages: input.pages }),
+        text: input.text,
+        lyrics: input.lyrics,
+        words: input.words.map((word) => ({
+            text: word.text,
+            confidence: Number(word.confidence.toFixed(2)),
+            line: word.line,
+            bbox: word.bbox,
+        })),
+    }, null, 2);
+
+const toLrc = (input: ExportInput): string => {
+    const { title, artist, composer } = input.lyrics;
+    const tags = [
+        title && `[ti:${title}]`,
+        artist && `[ar:${artist}]`,
+        composer && `[au:${composer}]`,
+        '[re:Amharic OCR]',
+    ].filter(Boolean);
+    const cues = sungLines(input).map((line, i) => `[${lrcTimestamp(i * CUE_SECONDS)}]${line}`);
+    return [...tags, ...cues].join('\n') + '\n';
+};
+
+const toSrt = (input: ExportInput): string =>
+    sungLines(input)
+        .map((line, i) => `${i + 1}\n${srtTimestamp(i * CUE_SECONDS)} --> ${srtTimestamp((i + 1) * CUE_SECONDS)}\n${line}\n`)
+        .join('\n');
+
+const toMarkdown = (input: ExportInput): string => {
+    const { lyrics } = input;
+    if (lyrics.sections.length === 0) return input.text;
+
+    const blocks: string[] = [];
+    if (lyrics.title) blocks.push(`# ${lyrics.title}`);
+
+    const credits = [
+        lyrics.artist && `**Artist:** ${lyrics.artist}`,
+        lyrics.composer && `**Composer:** ${lyrics.composer}`,
+    ].filter(Boolean);
+    if (credits.length > 0) blocks.push(credits.join('  \n'));
+
+    const labels = sectionLabels(lyrics);
+    lyrics.sections.forEach((section, i) => {
+        const repeat = section.repeat > 1 ? ` (×${section.repeat})` : '';
+        // Two trailing spaces keep each sung line on its own line
+        blocks.push(`## ${labels[i]}${repeat}\n\n${section.lines.join('  \n')}`);
+    });
+    return blocks.join('\n\n') + '\n';
+};
+
+const bboxTitle = (bbox: Bbox) => `bbox ${bbox.x0} ${bbox.y0} ${bbox.x1} ${bbox.y1}`;
+
+const pageSize = (input: ExportInput) => {
+    if (input.imageSize) return input.imageSize;
+    const blocks = input.page?.blocks ?? [];
+    return {
+        width: Math.max(0, ...blocks.map((block) => block.bbox.x1)),
+        height: Math.max(0, ...blocks.map((block) => block.bbox.y1)),
+    };
+};
+
+const toHocr = (input: ExportInput): string => {
+    const { width, height } = pageSize(input);
+    const lang = languageTag(input.languages);
+    const body: string[] = [];
+    let blockId = 0, parId = 0, lineId = 0, wordId = 0;
+
+    for (const block of input.page?.blocks ?? []) {
+        body.push(`   <div class="ocr_carea" id="block_1_${++blockId}" title="${bboxTitle(block.bbox)}">`);
+        for (const paragraph of block.paragraphs) {
+            body.push(`    <p class="ocr_par" id="par_1_${++parId}" lang="${lang}" title="${bboxTitle(paragraph.bbox)}">`);
+            for (const line of paragraph.lines) {
+                body.push(`     <span class="ocr_line" id="line_1_${++lineId}" title="${bboxTitle(line.bbox)}">`);
+                for (const word of line.words) {
+                    if (!word.text.trim()) continue;
+                    body.push(`      <span class="ocrx_word" id="word_1_${++wordId}" title="${bboxTitle(word.bbox)}; x_wconf ${Math.round(word.confidence)}">${escapeXml(word.text)}</span>`);
+                }
+                body.push('     </span>');
+            }
+            body.push('    </p>');
+        }
+        body.push('   </div>');
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${lang}" lang="${lang}">
+ <head>
+  <title>${escapeXml(input.sourceName ?? DEFAULT_BASENAME)}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8" />
+  <meta name="ocr-system" content="tesseract.js" />
+  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word" />
+ </head>
+ <body>
+  <div class="ocr_page" id="page_1" title="image &quot;${escapeXml(input.sourceName ?? '')}&quot;; bbox 0 0 ${width} ${height}; ppageno 0">
+${body.join('\n')}
+  </div>
+ </body>
+</html>
+`;
+};
+
+const altoPosition = (bbox: Bbox) =>
+    `HPOS="${bbox.x0}" VPOS="${bbox.y0}" WIDTH="${bbox.x1 - bbox.x0}" HEIGHT="${bbox.y1 - bbox.y0}"`;
+
+const toAlto = (input: ExportInput): string => {
+    const { width, height } = pageSize(input);
+    const lang = languageTag(input.languages);
+    const body: string[] = [];
+    let blockId = 0, lineId = 0, wordId = 0;
+
+    for (const block of input.page?.blocks ?? []) {
+        body.push(`        <TextBlock ID="block_${++blockId}" ${altoPosition(block.bbox)} LANG="${lang}">`);
+        // ALTO has no paragraph level; lines of all paragraphs go straight into the block
+        for (const line of block.paragraphs.flatMap((paragraph) => paragraph.lines)) {
+            const words = line.words.filter((word) => word.text.trim());
+            body.push(`          <TextLine ID="line_${++lineId}" ${altoPosition(line.bbox)}>`);
+            words.forEach((word, i) => {
+                if (i > 0) body.push('            <SP/>');
+                body.push(`            <String ID="string_${++wordId}" ${altoPosition(word.bbox)} WC="${(word.confidence / 100).toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`);
+            });
+            body.push('          </TextLine>');
+        }
+        body.push('        </TextBlock>');
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+  <Description>
+    <MeasurementUnit>pixel</MeasurementUnit>
+    <sourceImageInformation>
+      <fileName>${escapeXml(input.sourceName ?? '')}</fileName>
+    </sourceImageInformation>
+    <OCRProcessing ID="ocr_1">
+      <ocrProcessingStep>
+        <processingSoftware>
+          <softwareName>tesseract.js</softwareName>
+        </processingSoftware>
+      </ocrProcessingStep>
+    </OCRProcessing>
+  </Description>
+  <Layout>
+    <Page ID="page_1" PHYSICAL_IMG_NR="1" WIDTH="${width}" HEIGHT="${height}">
+      <PrintSpace HPOS="0" VPOS="0" WIDTH="${width}" HEIGHT="${height}">
+${body.join('\n')}
+      </PrintSpace>
+    </Page>
+  </Layout>
+</alto>
+`;
+};
+
+/**
+ * Serializes the result in the given format.
+ */
+export const buildExport = (format: ExportFormat, input: ExportInput): string => {
+    switch (format) {
+        case 'json': return toJson(input);
+        case 'lrc': return toLrc(input);
+        case 'srt': return toSrt(input);
+        case 'md': return toMarkdown(input);
+        case 'hocr': return toHocr(input);
+        case 'alto': return toAlto(input);
+        default: return input.text;
+    }
+};
@@ -0,0 +1,50 @@
+/**
+ * Fidel (Ethiopic syllabary) helpers
+ * Syllables are laid out in rows of 8 code points: one consonant, seven vowel
+ * orders (ä, u, i, a, e, ə, o) plus a labialized form for some consonants.
+ */
+
+export const ETHIOPIC_START = 0x1200;
+export const ETHIOPIC_LETTERS_END = 0x135A;
+
+// Fidel series that are pronounced alike and easily swapped: ሀ/ሐ/ኀ, ሰ/ሠ, ጸ/ፀ, አ/ዐ.
+// Values are the first-order code points; the other orders follow at +1..+6.
+export const HOMOPHONE_SERIES = [
+    [0x1200, 0x1210, 0x1280],
+    [0x1230, 0x1220],
+    [0x1338, 0x1340],
+    [0x12A0, 0x12D0],
+];
+
+// First-order code points of the series used in Amharic, in traditional ሀ ለ ሐ መ order
+export const AMHARIC_SERIES = [
+    0x1200, 0x1208, 0x1210, 0x1218, 0x1220, 0x1228, 0x1230, 0x1238, 0x1240, 0x1260, 0x1268,
+    0x1270, 0x1278, 0x1280, 0x1290, 0x1298, 0x12A0, 0x12A8, 0x12B8, 0x12C8, 0x12D0, 0x12D8,
+    0x12E0, 0x12E8, 0x12F0, 0x1300, 0x1308, 0x1320, 0x1328, 0x1330, 0x1338, 0x1340, 0x1348, 0x1350,
+];
+
+// Series whose 8th code point is the labialized "wa" form (ሏ, ሟ, ...)
+export const LABIALIZED_SERIES = new Set([
+    0x1208, 0x1210, 0x1218, 0x1220, 0x1228, 0x1230, 0x1238, 0x1260, 0x1268, 0x1270, 0x1278,
+    0x1290, 0x1298, 0x12D8, 0x12E0, 0x12F0, 0x1300, 0x1320, 0x1328, 0x1330, 0x1338, 0x1348, 0x1350,
+]);
+
+export interface FidelParts {
+    base: number;  // Code point of the first-order form of the series
+    order: number; // 0..7
+}
+
+export const isFidel = (char: string | undefined): boolean => {
+    const code = char?.codePointAt(0);
+    return code !== undefined && code >= ETHIOPIC_START && code <= ETHIOPIC_LETTERS_END;
+};
+
+export const decomposeFidel = (char: string): FidelParts | null => {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < ETHIOPIC_START || code > ETHIOPIC_LETTERS_END) return null;
+    const order = (code - ETHIOPIC_START) % 8;
+    return { base: code - order, order };
+};
+
+export const homophoneSeries = (base: number): number[] | undefined =>
+    HOMOPHONE_SERIES.find((series) => series.includes(base));
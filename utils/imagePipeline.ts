@@ -0,0 +1,520 @@
+/**
+ * Image Preprocessing Pipeline for Amharic OCR
+ * Pure pixel operations on RGBA buffers, with no DOM dependencies, so the same
+ * code runs in the preprocessing Web Worker, on the main thread and on the
+ * server (utils/server/imageProcessing.ts).
+ * Implements advanced preprocessing techniques including:
+ * - Grayscale Conversion (Weighted)
+ * - Adaptive Thresholding (Integral Image approach for speed)
+ * - Noise Reduction (Median Filter, Sorting Network)
+ * - Upscaling
+ * - Inversion (light text on dark backgrounds)
+ * - Skew Detection & Correction (Projection Profile)
+ * - Four-corner Perspective Correction (Homography)
+ */
+
+export interface RawImage {
+    data: Uint8ClampedArray<ArrayBuffer>; // RGBA
+    width: number;
+    height: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Corners of the page in the source image, normalized to 0..1 so they don't
+// depend on the preview size. Order: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+export interface PreprocessOptions {
+    grayscale?: boolean;
+    binarize?: boolean;      // If true, applies Adaptive Thresholding
+    denoise?: boolean;       // If true, applies Median Blur
+    upscale?: boolean;       // If true, scales small images to 300 DPI equiv
+    upscaleFactor?: number;  // Scale used when upscaling kicks in
+    windowSize?: number;     // Adaptive threshold window in px (after upscaling), odd
+    constant?: number;       // Adaptive threshold C: how much darker than the local mean ink must be
+    invert?: boolean;        // Turns light-on-dark text into dark-on-light before thresholding
+    deskew?: boolean;        // Detects the text angle and rotates the page level
+    perspective?: Quad | null; // Page corners to warp flat, e.g. for photos shot at an angle
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: Required<PreprocessOptions> = {
+    grayscale: true,
+    binarize: true, // Default to Adaptive Threshold
+    denoise: true,  // The sorting-network median filter is cheap enough to keep on
+    upscale: true,
+    upscaleFactor: 2, // Simple 2x upscale
+    // Window size roughly translates to the size of "shadows" we want to ignore.
+    // For text, a window of ~20-30px (after upscaling) is usually good to isolate letters from local background.
+    windowSize: 41,
+    constant: 15,
+    invert: false,
+    deskew: false,
+    perspective: null,
+};
+
+/**
+ * Computes the integral image (summed-area table) for fast local mean extraction.
+ * Float64: the sums pass 2^31 from about 8 megapixels of white, and stay exact to 2^53.
+ */
+function computeIntegralImage(data: Uint8ClampedArray, width: number, height: number): Float64Array {
+    const integral = new Float64Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        let sum = 0;
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            // We assume data is already 1-channel grayscale or we take the first channel
+            sum += data[i * 4];
+            if (y === 0) {
+                integral[i] = sum;
+            } else {
+                integral[i] = integral[(y - 1) * width + x] + sum;
+            }
+        }
+    }
+    return integral;
+}
+
+/**
+ * Applies Adaptive Thresholding using the Integral Image method.
+ * This is equivalent to cv2.adaptiveThreshold with ADAPTIVE_THRESH_MEAN_C
+ */
+function applyAdaptiveThreshold(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    windowSize: number = 21, // ~2% of width often works well, or fixed ~15 px for text
+    constant: number = 10    // The C value in OpenCV
+) {
+    const integral = computeIntegralImage(data, width, height);
+    const output = new Uint8ClampedArray(data.length);
+    const halfWindow = Math.floor(windowSize / 2);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const x1 = Math.max(x - halfWindow, 0);
+            const y1 = Math.max(y - halfWindow, 0);
+            const x2 = Math.min(x + halfWindow, width - 1);
+            const y2 = Math.min(y + halfWindow, height - 1);
+
+            const count = (x2 - x1 + 1) * (y2 - y1 + 1);
+
+            // I(D) + I(A) - I(B) - I(C)
+            // A=(x1-1, y1-1), B=(x2, y1-1), C=(x1-1, y2), D=(x2, y2)
+            // Indices handling edge cases
+
+            const A = (x1 > 0 && y1 > 0) ? integral[(y1 - 1) * width + (x1 - 1)] : 0;
+            const B = (y1 > 0) ? integral[(y1 - 1) * width + x2] : 0;
+            const C = (x1 > 0) ? integral[y2 * width + (x1 - 1)] : 0;
+            const D = integral[y2 * width + x2];
+
+            const sum = D + A - B - C;
+            const mean = sum / count;
+
+            const idx = (y * width + x) * 4;
+            const value = data[idx];
+
+            // Thresholding
+            const binary = value > (mean - constant) ? 255 : 0;
+
+            output[idx] = binary;     // R
+            output[idx + 1] = binary; // G
+            output[idx + 2] = binary; // B
+            output[idx + 3] = 255;    // Alpha
+        }
+    }
+
+    // Replace original data
+    data.set(output);
+}
+
+/**
+ * Applies a 3x3 Median Filter to remove salt-and-pepper noise.
+ * Uses the 19-comparison median-of-9 sorting network on plain locals instead of
+ * allocating and sorting an array per pixel. Border pixels are left untouched.
+ */
+function applyMedianFilter(data: Uint8ClampedArray, width: number, height: number) {
+    // Only the (grayscale) first channel is needed, which also keeps the copy small
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) gray[i] = data[i * 4];
+
+    for (let y = 1; y < height - 1; y++) {
+        const row = (y - 1) * width;
+        for (let x = 1; x < width - 1; x++) {
+            const above = row + x - 1;
+            const middle = above + width;
+            const below = middle + width;
+
+            let p0 = gray[above], p1 = gray[above + 1], p2 = gray[above + 2];
+            let p3 = gray[middle], p4 = gray[middle + 1], p5 = gray[middle + 2];
+            let p6 = gray[below], p7 = gray[below + 1], p8 = gray[below + 2];
+            let t: number;
+
+            // Each line is a compare-and-swap so that the smaller value ends up first
+            if (p1 > p2) { t = p1; p1 = p2; p2 = t; }
+            if (p4 > p5) { t = p4; p4 = p5; p5 = t; }
+            if (p7 > p8) { t = p7; p7 = p8; p8 = t; }
+            if (p0 > p1) { t = p0; p0 = p1; p1 = t; }
+            if (p3 > p4) { t = p3; p3 = p4; p4 = t; }
+            if (p6 > p7) { t = p6; p6 = p7; p7 = t; }
+            if (p1 > p2) { t = p1; p1 = p2; p2 = t; }
+            if (p4 > p5) { t = p4; p4 = p5; p5 = t; }
+            if (p7 > p8) { t = p7; p7 = p8; p8 = t; }
+            if (p0 > p3) { p3 = p0; }
+            if (p5 > p8) { p5 = p8; }
+            if (p4 > p7) { t = p4; p4 = p7; p7 = t; }
+            if (p3 > p6) { p6 = p3; }
+            if (p1 > p4) { p4 = p1; }
+            if (p2 > p5) { p2 = p5; }
+            if (p4 > p7) { p4 = p7; }
+            if (p4 > p2) { t = p4; p4 = p2; p2 = t; }
+            if (p6 > p4) { p4 = p6; }
+            if (p4 > p2) { p4 = p2; }
+
+            const i = (y * width + x) * 4;
+            data[i] = p4;
+            data[i + 1] = p4;
+            data[i + 2] = p4;
+            // data[i+3] (Alpha) remains
+        }
+    }
+}
+
+/**
+ * Estimates the text skew (in radians) with a projection profile: text lines
+ * produce the sharpest row histogram when projected along their own angle.
+ * Works on a downsampled set of dark pixels for speed.
+ */
+function detectSkewAngle(data: Uint8ClampedArray, width: number, height: number, maxDegrees: number = 15): number {
+    const step = Math.max(1, Math.ceil(Math.max(width, height) / 800));
+
+    let sum = 0;
+    let count = 0;
+    for (let y = 0; y < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            sum += data[(y * width + x) * 4];
+            count++;
+        }
+    }
+    const darkThreshold = (sum / count) * 0.7;
+
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let y = 0; y < height; y += step) {
+        for (let x = 0; x < width; x += step) {
+            if (data[(y * width + x) * 4] < darkThreshold) {
+                xs.push(x / step);
+                ys.push(y / step);
+            }
+        }
+    }
+    if (xs.length < 100) return 0; // Not enough ink to tell
+
+    const diagonal = Math.ceil(Math.hypot(width / step, height / step));
+    const rows = new Float64Array(diagonal * 2 + 1);
+
+    const score = (degrees: number) => {
+        const rad = (degrees * Math.PI) / 180;
+        const sin = Math.sin(rad);
+        const cos = Math.cos(rad);
+        rows.fill(0);
+        for (let i = 0; i < xs.length; i++) {
+            rows[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+        }
+        let total = 0;
+        for (let i = 0; i < rows.length; i++) total += rows[i] * rows[i];
+        return total;
+    };
+
+    // Coarse search in 1° steps, then refine around the best match
+    let best = 0;
+    let bestScore = score(0);
+    for (let deg = -maxDegrees; deg <= maxDegrees; deg += 1) {
+        const value = score(deg);
+        if (value > bestScore) {
+            best = deg;
+            bestScore = value;
+        }
+    }
+    const coarse = best;
+    for (let deg = coarse - 1; deg <= coarse + 1; deg += 0.1) {
+        const value = score(deg);
+        if (value > bestScore) {
+            best = deg;
+            bestScore = value;
+        }
+    }
+
+    return (best * Math.PI) / 180;
+}
+
+/**
+ * Rotates the image around its center, keeping its size (bilinear sampling).
+ * Uncovered corners are filled white, i.e. paper (inversion has already run).
+ */
+function rotateImage(image: RawImage, radians: number): RawImage {
+    const { data: src, width, height } = image;
+    const out = new Uint8ClampedArray(src.length);
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const cx = width / 2;
+    const cy = height / 2;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Inverse rotation: where does this output pixel come from?
+            const dx = x - cx;
+            const dy = y - cy;
+            const sx = cos * dx + sin * dy + cx;
+            const sy = -sin * dx + cos * dy + cy;
+            const o = (y * width + x) * 4;
+
+            if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) {
+                out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+                continue;
+            }
+            sampleBilinear(src, width, height, sx, sy, out, o);
+        }
+    }
+    return { data: out, width, height };
+}
+
+/**
+ * Writes the bilinear interpolation of the RGB channels at (sx, sy) into out[o..o+3].
+ */
+function sampleBilinear(src: Uint8ClampedArray, sw: number, sh: number, sx: number, sy: number, out: Uint8ClampedArray, o: number) {
+    const x0 = Math.floor(sx);
+    const y0 = Math.floor(sy);
+    const x1 = Math.min(x0 + 1, sw - 1);
+    const y1 = Math.min(y0 + 1, sh - 1);
+    const fx = sx - x0;
+    const fy = sy - y0;
+
+    const i00 = (y0 * sw + x0) * 4;
+    const i10 = (y0 * sw + x1) * 4;
+    const i01 = (y1 * sw + x0) * 4;
+    const i11 = (y1 * sw + x1) * 4;
+
+    for (let c = 0; c < 3; c++) {
+        const top = src[i00 + c] * (1 - fx) + src[i10 + c] * fx;
+        const bottom = src[i01 + c] * (1 - fx) + src[i11 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+    }
+    out[o + 3] = 255;
+}
+
+/**
+ * Solves the 3x3 homography mapping the 4 `from` points onto the 4 `to` points
+ * (Gaussian elimination on the standard 8-unknown system, h33 = 1).
+ */
+function computeHomography(from: Point[], to: Point[]): number[] {
+    const a: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < 8; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = 0; row < 8; row++) {
+            if (row === col || a[col][col] === 0) continue;
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    const h = a.map((row, i) => row[8] / row[i]);
+    return [...h, 1];
+}
+
+/**
+ * Size of the flattened page: the longer of each pair of opposite edges.
+ */
+function quadSize(corners: Point[]): { width: number; height: number } {
+    const [tl, tr, br, bl] = corners;
+    const dist = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+    return {
+        width: Math.round(Math.max(dist(tl, tr), dist(bl, br))),
+        height: Math.round(Math.max(dist(tl, bl), dist(tr, br))),
+    };
+}
+
+/**
+ * Warps the quad `corners` of the source onto a flat width x height image,
+ * sampling the source bilinearly for every output pixel.
+ */
+export function warpPerspective(source: RawImage, corners: Point[], width: number, height: number): RawImage {
+    const out = new Uint8ClampedArray(width * height * 4);
+    const { data: src, width: sw, height: sh } = source;
+
+    // Map output pixels back into the source, so every output pixel gets a value
+    const rect = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+    const h = computeHomography(rect, corners);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const w = h[6] * x + h[7] * y + h[8];
+            const sx = Math.min(Math.max((h[0] * x + h[1] * y + h[2]) / w, 0), sw - 1);
+            const sy = Math.min(Math.max((h[3] * x + h[4] * y + h[5]) / w, 0), sh - 1);
+            sampleBilinear(src, sw, sh, sx, sy, out, (y * width + x) * 4);
+        }
+    }
+    return { data: out, width, height };
+}
+
+/**
+ * Converts RGB to luminance in place (weighted average).
+ */
+function applyGrayscale(data: Uint8ClampedArray) {
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        // Luminance weighted average
+        const gray = (0.299 * r + 0.587 * g + 0.114 * b);
+        data[i] = data[i + 1] = data[i + 2] = gray;
+    }
+}
+
+function applyInvert(data: Uint8ClampedArray) {
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = 255 - data[i];
+        data[i + 1] = 255 - data[i + 1];
+        data[i + 2] = 255 - data[i + 2];
+    }
+}
+
+export type PipelineStage = 'loading' | 'perspective' | 'grayscale' | 'deskew' | 'denoise' | 'threshold' | 'encoding';
+
+export type PipelineProgressHandler = (stage: PipelineStage, progress: number) => void;
+
+export const resolveOptions = (options: PreprocessOptions = {}): Required<PreprocessOptions> => ({
+    ...DEFAULT_PREPROCESS_OPTIONS,
+    ...options,
+});
+
+/**
+ * Output size before any pixel work: the flattened page (if corners are set)
+ * or the source, upscaled when small (Crucial for Tesseract accuracy on small text).
+ */
+export const computeTargetSize = (
+    sourceWidth: number,
+    sourceHeight: number,
+    config: Required<PreprocessOptions>
+): { width: number; height: number; corners: Point[] | null } => {
+    const corners = config.perspective?.map((p) => ({ x: p.x * sourceWidth, y: p.y * sourceHeight })) ?? null;
+    const base = corners ? quadSize(corners) : { width: sourceWidth, height: sourceHeight };
+    let { width, height } = base;
+
+    if (config.upscale && config.upscaleFactor > 1 && (width < 1500 || height < 1500)) {
+        width = Math.round(width * config.upscaleFactor);
+        height = Math.round(height * config.upscaleFactor);
+    }
+    return { width, height, corners };
+};
+
+
+/**
+ * Runs the pixel pipeline on an image that is already at its target size.
+ * Mutates and may replace the buffer; returns the processed RGBA image.
+ */
+export const runPipeline = (
+    input: RawImage,
+    options: PreprocessOptions = {},
+    onProgress?: PipelineProgressHandler
+): RawImage => {
+    const config = resolveOptions(options);
+    let image = input;
+    const { width, height } = image;
+
+    // 1. Grayscale Conversion
+    if (config.grayscale || config.binarize) {
+        onProgress?.('grayscale', 0.2);
+        applyGrayscale(image.data);
+    }
+
+    // 1b. Inversion - thresholding expects dark ink on a light background
+    if (config.invert) {
+        applyInvert(image.data);
+    }
+
+    // 1c. Deskew - rotate the page so text lines are horizontal again
+    if (config.deskew) {
+        onProgress?.('deskew', 0.35);
+        const angle = detectSkewAngle(image.data, width, height);
+        if (Math.abs(angle) > 0.001) {
+            image = rotateImage(image, -angle);
+        }
+    }
+
+    // 2. Denoise (Median Filter) - Done before thresholding to smooth noise
+    if (config.denoise) {
+        onProgress?.('denoise', 0.55);
+        applyMedianFilter(image.data, width, height);
+    }
+
+    // 3. Adaptive Thresholding
+    if (config.binarize) {
+        onProgress?.('threshold', 0.75);
+        // Constant C is how much darker usage must be than local avg.
+        applyAdaptiveThreshold(image.data, width, height, config.windowSize, config.constant);
+    }
+
+    return image;
+};
+
+// Works for both a document canvas and an OffscreenCanvas inside the worker
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Draws the source onto the context's canvas at its target size, runs the
+ * pipeline and puts the result back, ready to be encoded as PNG.
+ */
+export const renderPreprocessed = (
+    ctx: Canvas2D,
+    source: CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    options: PreprocessOptions = {},
+    onProgress?: PipelineProgressHandler
+) => {
+    const config = resolveOptions(options);
+    const { width, height, corners } = computeTargetSize(sourceWidth, sourceHeight, config);
+    const canvas = ctx.canvas;
+
+    let input: RawImage;
+    if (corners) {
+        // 0. Perspective Correction - sample the full-resolution photo directly,
+        // with the upscale folded into the warp so it is only sampled once
+        onProgress?.('perspective', 0.05);
+        canvas.width = sourceWidth;
+        canvas.height = sourceHeight;
+        ctx.drawImage(source, 0, 0);
+        const photo = ctx.getImageData(0, 0, sourceWidth, sourceHeight);
+        input = warpPerspective(photo, corners, width, height);
+        canvas.width = width;
+        canvas.height = height;
+    } else {
+        canvas.width = width;
+        canvas.height = height;
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, width, height);
+        input = ctx.getImageData(0, 0, width, height);
+    }
+
+    const output = runPipeline(input, config, onProgress);
+    ctx.putImageData(new ImageData(output.data, output.width, output.height), 0, 0);
+    onProgress?.('encoding', 0.9);
+};
@@ -0,0 +1,63 @@
+/**
+ * Tesseract language packs (.traineddata files under public/tessdata)
+ * - The available packs and their sizes come from /api/tessdata
+ * - A selection is an ordered list of codes; Tesseract gives earlier
+ *   languages priority, so "amh+eng" prefers Amharic where both fit
+ * - The last selection is remembered in localStorage
+ */
+
+export interface LanguagePack {
+    code: string; // Tesseract code, e.g. "amh", or a script model such as "Ethiopic"
+    size: number; // Bytes
+}
+
+export const DEFAULT_LANGUAGES = ['amh'];
+
+// Human-readable names for the packs we expect; anything else shows its code
+const LANGUAGE_LABELS: Record<string, string> = {
+    amh: 'Amharic',
+    tir: 'Tigrinya',
+    eng: 'English',
+    orm: 'Oromo',
+    Ethiopic: "Ge'ez (Ethiopic script)",
+    Latin: 'Latin script (Oromo, ...)',
+    osd: 'Orientation & script detection',
+};
+
+export const languageLabel = (code: string): string => LANGUAGE_LABELS[code] ?? code;
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const toLanguageString = (codes: string[]): string => codes.join('+');
+
+export const fetchLanguagePacks = async (): Promise<LanguagePack[]> => {
+    const res = await fetch('/api/tessdata');
+    if (!res.ok) throw new Error(`Failed to list language packs (${res.status})`);
+    const body = (await res.json()) as { languages: LanguagePack[] };
+    return body.languages;
+};
+
+const LANGUAGES_KEY = 'amharic-ocr:languages';
+
+export const loadLanguageSelection = (): string[] => {
+    try {
+        const raw = localStorage.getItem(LANGUAGES_KEY);
+        const codes = raw ? (JSON.parse(raw) as string[]) : [];
+        return codes.length > 0 ? codes : DEFAULT_LANGUAGES;
+    } catch (e) {
+        console.error('Failed to load language selection', e);
+        return DEFAULT_LANGUAGES;
+    }
+};
+
+export const saveLanguageSelection = (codes: string[]) => {
+    try {
+        localStorage.setItem(LANGUAGES_KEY, JSON.stringify(codes));
+    } catch (e) {
+        console.error('Failed to save language selection', e);
+    }
+};
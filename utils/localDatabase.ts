@@ -0,0 +1,56 @@
+/**
+ * The app's IndexedDB database and small promise helpers around it.
+ * Every store is created here so the schema version lives in one place:
+ * - v1: scans, scanData (scan history)
+ * - v2: uploadQueue (uploads made while offline)
+ */
+
+const DB_NAME = 'amharic-ocr';
+const DB_VERSION = 2;
+
+export const STORES = {
+    scans: 'scans',
+    scanData: 'scanData',
+    uploadQueue: 'uploadQueue',
+} as const;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORES.scans)) {
+                    db.createObjectStore(STORES.scans, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.scanData)) {
+                    db.createObjectStore(STORES.scanData, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORES.uploadQueue)) {
+                    db.createObjectStore(STORES.uploadQueue, { keyPath: 'id', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch((e) => {
+            databasePromise = null; // Allow a retry later
+            throw e;
+        });
+    }
+    return databasePromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
@@ -0,0 +1,265 @@
+/**
+ * Structured lyrics model
+ * - Detects title, artist/composer and verse/chorus/bridge sections from the
+ *   OCR text, using blank lines, section headers and the OCR line layout
+ * - Validates documents received by /api/upload-lyrics
+ */
+
+import type { LocatedLine } from '@/utils/ocrWords';
+
+export type LyricsSectionKind = 'verse' | 'chorus' | 'bridge';
+
+export const LYRICS_SECTION_KINDS: LyricsSectionKind[] = ['verse', 'chorus', 'bridge'];
+
+export interface LyricsSection {
+    kind: LyricsSectionKind;
+    label?: string;  // As written on the sheet, e.g. "አዝማች"
+    lines: string[];
+    repeat: number;  // How many times the section is sung in a row, 1 = once
+}
+
+export interface LyricsDocument {
+    title: string;
+    artist?: string;
+    composer?: string;
+    sections: LyricsSection[];
+}
+
+// Limits enforced by the upload route
+export const LYRICS_LIMITS = {
+    titleLength: 200,
+    sections: 200,
+    linesPerSection: 200,
+    lineLength: 500,
+    repeat: 20,
+};
+
+// "[Verse 1]", "[Chorus]" (also what region OCR emits)
+const HEADER_PATTERN = /^\s*\[([^\]]+)\]\s*$/;
+// Page markers of combined batch text, e.g. "--- Page 2: scan.png ---"
+const PAGE_MARKER = /^---.*---$/;
+// Amharic hymn sheets mark the chorus with "አዝማች" or just "አዝ", optionally followed by ፡ or :
+const CHORUS_PREFIX = /^\s*(አዝማች|አዝ)\s*[፡:፦.-]?\s*/;
+// "x2", "×3", "(2x)", "[x2]" at the end of a line
+const REPEAT_PATTERN = /\s*[([]?\s*(?:[x×X]\s*(\d{1,2})|(\d{1,2})\s*[x×X])\s*[)\]]?\s*$/;
+const ARTIST_PATTERN = /^\s*(?:artist|singer|performed by|ዘማሪ|ድምፃዊ|ድምጻዊ)\s*[:፡፦-]\s*(.+)$/i;
+const COMPOSER_PATTERN = /^\s*(?:composer|lyrics|words|music|ግጥም|ዜማ|ግጥምና ዜማ)\s*[:፡፦-]\s*(.+)$/i;
+
+// A vertical gap this many median line heights wide separates two stanzas
+const STANZA_GAP = 1.2;
+
+// Short single lines at the top are usually the song title
+const MAX_TITLE_WORDS = 8;
+
+interface Stanza {
+    header?: string;
+    lines: string[];
+}
+
+const kindFromHeader = (header: string): LyricsSectionKind | 'title' | null => {
+    const value = header.toLowerCase();
+    if (value.startsWith('title')) return 'title';
+    if (value.startsWith('chorus') || value.startsWith('refrain') || CHORUS_PREFIX.test(header)) return 'chorus';
+    if (value.startsWith('bridge') || value.startsWith('ድልድይ')) return 'bridge';
+    if (value.startsWith('verse')) return 'verse';
+    return null;
+};
+
+/**
+ * Text offsets where the OCR layout shows a larger than usual gap between
+ * two consecutive lines, i.e. where a new stanza starts on the page.
+ */
+const layoutBreaks = (lines: LocatedLine[]): Set<number> => {
+    const breaks = new Set<number>();
+    const heights = lines.map((line) => line.bbox.y1 - line.bbox.y0).sort((a, b) => a - b);
+    const medianHeight = heights[Math.floor(heights.length / 2)];
+    if (!medianHeight) return breaks;
+
+    for (let i = 1; i < lines.length; i++) {
+        const prev = lines[i - 1];
+        const line = lines[i];
+        // A negative gap is a jump to another column or region, not a stanza break
+        const gap = line.bbox.y0 - prev.bbox.y1;
+        if (line.range && gap > medianHeight * STANZA_GAP) breaks.add(line.range.start);
+    }
+    return breaks;
+};
+
+const splitStanzas = (text: string, lines: LocatedLine[]): Stanza[] => {
+    const breaks = layoutBreaks(lines);
+    const stanzas: Stanza[] = [];
+    let current: Stanza = { lines: [] };
+    let offset = 0;
+
+    const flush = () => {
+        if (current.lines.length > 0 || current.header) stanzas.push(current);
+        current = { lines: [] };
+    };
+
+    for (const rawLine of text.split('\n')) {
+        const lineStart = offset;
+        offset += rawLine.length + 1;
+        const line = rawLine.trim();
+        const header = line.match(HEADER_PATTERN);
+
+        if (!line || PAGE_MARKER.test(line)) {
+            if (current.lines.length > 0) flush();
+        } else if (header) {
+            flush();
+            current.header = header[1].trim();
+        } else {
+            // The break offset is where the first word starts, after any indentation
+            const wordStart = lineStart + rawLine.indexOf(line);
+            if (current.lines.length > 0 && breaks.has(wordStart)) flush();
+            current.lines.push(line);
+        }
+    }
+    flush();
+    return stanzas;
+};
+
+const normalizeStanza = (lines: string[]) => lines.join(' ').replace(/\s+/g, ' ').trim();
+
+// Compared without the chorus prefix and repeat marker: sheets often mark only one copy
+const stanzaKey = (lines: string[]) => {
+    const text = normalizeStanza(lines).replace(CHORUS_PREFIX, '');
+    const repeatMark = text.match(REPEAT_PATTERN);
+    return (repeatMark ? text.slice(0, repeatMark.index) : text).trim();
+};
+
+/**
+ * Builds a lyrics document from OCR text. `lines` (from the OCR layout) is
+ * optional and only used to find stanza breaks that the text lacks.
+ */
+export const detectLyrics = (text: string, lines: LocatedLine[] = []): LyricsDocument => {
+    const doc: LyricsDocument = { title: '', sections: [] };
+    const stanzas = splitStanzas(text, lines);
+
+    // Credits can appear anywhere; they are never part of the lyrics
+    for (const stanza of stanzas) {
+        stanza.lines = stanza.lines.filter((line) => {
+            const artist = line.match(ARTIST_PATTERN);
+            const composer = line.match(COMPOSER_PATTERN);
+            if (artist && !doc.artist) doc.artist = artist[1].trim();
+            else if (composer && !doc.composer) doc.composer = composer[1].trim();
+            else return true;
+            return false;
+        });
+    }
+    const remaining = stanzas.filter((stanza) => stanza.lines.length > 0);
+
+    // Stanzas that occur more than once are the chorus
+    const occurrences = new Map<string, number>();
+    remaining.forEach((stanza) => {
+        const key = stanzaKey(stanza.lines);
+        occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+    });
+
+    remaining.forEach((stanza, index) => {
+        const headerKind = stanza.header ? kindFromHeader(stanza.header) : null;
+        const lines = [...stanza.lines];
+
+        const isTitle = headerKind === 'title' || (
+            !doc.title && index === 0 && !stanza.header && remaining.length > 1 &&
+            lines.length === 1 && lines[0].split(/\s+/).length <= MAX_TITLE_WORDS
+        );
+        if (isTitle && !doc.title) {
+            doc.title = lines.join(' ');
+            return;
+        }
+
+        let kind: LyricsSectionKind = headerKind && headerKind !== 'title' ? headerKind : 'verse';
+        let label = stanza.header;
+        const chorusMark = lines[0].match(CHORUS_PREFIX);
+        if (chorusMark) {
+            kind = 'chorus';
+            label = label ?? chorusMark[1];
+            lines[0] = lines[0].slice(chorusMark[0].length);
+            if (!lines[0]) lines.shift();
+        }
+
+        let repeat = 1;
+        const last = lines[lines.length - 1] ?? '';
+        const repeatMark = last.match(REPEAT_PATTERN);
+        if (repeatMark) {
+            repeat = Math.min(Number(repeatMark[1] ?? repeatMark[2]) || 1, LYRICS_LIMITS.repeat);
+            const rest = last.slice(0, repeatMark.index).trim();
+            if (rest) lines[lines.length - 1] = rest;
+            else lines.pop();
+        }
+
+        if (lines.length === 0) return;
+        if (!chorusMark && !headerKind && (occurrences.get(stanzaKey(lines)) ?? 0) > 1) {
+            kind = 'chorus';
+        }
+        doc.sections.push({ kind, ...(label && { label }), lines, repeat });
+    });
+
+    return doc;
+};
+
+/**
+ * Checks an untrusted value against the lyrics document shape.
+ * Returns a list of problems; an empty list means the document is valid.
+ */
+export const validateLyricsDocument = (value: unknown): string[] => {
+    const errors: string[] = [];
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return ['lyrics must be an object'];
+    }
+    const doc = value as Record<string, unknown>;
+
+    if (typeof doc.title !== 'string') errors.push('lyrics.title must be a string');
+    else if (doc.title.length > LYRICS_LIMITS.titleLength) errors.push(`lyrics.title must be at most ${LYRICS_LIMITS.titleLength} characters`);
+
+    for (const key of ['artist', 'composer'] as const) {
+        if (doc[key] !== undefined && typeof doc[key] !== 'string') errors.push(`lyrics.${key} must be a string`);
+    }
+
+    if (!Array.isArray(doc.sections)) {
+        errors.push('lyrics.sections must be an array');
+        return errors;
+    }
+    if (doc.sections.length > LYRICS_LIMITS.sections) {
+        errors.push(`lyrics.sections must have at most ${LYRICS_LIMITS.sections} entries`);
+    }
+
+    doc.sections.forEach((raw: unknown, i) => {
+        const path = `lyrics.sections[${i}]`;
+        if (!raw || typeof raw !== 'object') {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        const section = raw as Record<string, unknown>;
+
+        if (!LYRICS_SECTION_KINDS.includes(section.kind as LyricsSectionKind)) {
+            errors.push(`${path}.kind must be one of ${LYRICS_SECTION_KINDS.join(', ')}`);
+        }
+        if (section.label !== undefined && typeof section.label !== 'string') {
+            errors.push(`${path}.label must be a string`);
+        }
+        if (!Number.isInteger(section.repeat) || (section.repeat as number) < 1 || (section.repeat as number) > LYRICS_LIMITS.repeat) {
+            errors.push(`${path}.repeat must be an integer between 1 and ${LYRICS_LIMITS.repeat}`);
+        }
+        if (!Array.isArray(section.lines) || section.lines.length === 0) {
+            errors.push(`${path}.lines must be a non-empty array`);
+        } else if (section.lines.length > LYRICS_LIMITS.linesPerSection) {
+            errors.push(`${path}.lines must have at most ${LYRICS_LIMITS.linesPerSection} entries`);
+        } else if (section.lines.some((line) => typeof line !== 'string' || line.length > LYRICS_LIMITS.lineLength)) {
+            errors.push(`${path}.lines must be strings of at most ${LYRICS_LIMITS.lineLength} characters`);
+        }
+    });
+
+    return errors;
+};
+
+/**
+ * Drops blank lines and sections left empty after editing, before upload.
+ */
+export const compactLyrics = (doc: LyricsDocument): LyricsDocument => ({
+    ...doc,
+    title: doc.title.trim(),
+    sections: doc.sections
+        .map((section) => ({ ...section, lines: section.lines.map((line) => line.trim()).filter(Boolean) }))
+        .filter((section) => section.lines.length > 0),
+});
@@ -0,0 +1,142 @@
+/**
+ * Near-duplicate detection for lyrics
+ * - Text is normalized first: homophone fidel (ሐ/ኀ → ሀ, ሠ → ሰ, ፀ → ጸ, ዐ → አ)
+ *   and the 4th order of ሀ and አ are folded, punctuation is dropped, spacing
+ *   collapsed, so spelling variants and OCR punctuation noise do not count
+ * - The normalized text is cut into overlapping character shingles; a MinHash
+ *   signature of them estimates the Jaccard similarity of two texts, so one
+ *   misread character only disturbs a few shingles instead of a whole line
+ * - Signatures are stored, so the hash functions must never change without
+ *   bumping FINGERPRINT_VERSION
+ */
+
+import { decomposeFidel, homophoneSeries } from '@/utils/fidel';
+
+export const FINGERPRINT_VERSION = 1;
+
+export type DuplicateAction = 'merge' | 'overwrite' | 'upload';
+
+/**
+ * What the user chose for a likely duplicate. Without `of`, the upload is
+ * sent anyway and only tagged with the best match, for clients that cannot
+ * ask (the offline queue, scripts).
+ */
+export interface DuplicateResolution {
+    action: DuplicateAction;
+    of?: string; // Id of the earlier upload
+}
+
+const DUPLICATE_ACTIONS: DuplicateAction[] = ['merge', 'overwrite', 'upload'];
+
+export const isValidDuplicateResolution = (value: unknown): value is DuplicateResolution => {
+    if (!value || typeof value !== 'object') return false;
+    const { action, of } = value as Record<string, unknown>;
+    if (!DUPLICATE_ACTIONS.includes(action as DuplicateAction)) return false;
+    if (of === undefined) return action === 'upload'; // Merging or overwriting needs a target
+    return typeof of === 'string' && /^[\w-]{1,128}$/.test(of);
+};
+
+export interface DuplicateMatch {
+    id: string;
+    title: string;
+    similarity: number; // Estimated Jaccard similarity, 0..1
+    uploadedBy: string;
+    uploadedAt: string;
+}
+
+const SHINGLE_LENGTH = 3;
+const SIGNATURE_LENGTH = 128;
+
+// Texts this short share shingles by chance; a comparison would mean nothing
+const MIN_SHINGLES = 20;
+
+const ETHIOPIC_PUNCTUATION = /[፠-፨]/g;
+
+// Series whose 4th order is commonly written for the 1st (ሃ for ሀ, ኣ for አ)
+const FOLDED_FOURTH_ORDER = new Set([0x1200, 0x12A0]);
+
+const foldFidel = (char: string): string => {
+    const parts = decomposeFidel(char);
+    if (!parts) return char;
+    const base = homophoneSeries(parts.base)?.[0] ?? parts.base;
+    const order = parts.order === 3 && FOLDED_FOURTH_ORDER.has(base) ? 0 : parts.order;
+    return String.fromCodePoint(base + order);
+};
+
+export const normalizeForFingerprint = (text: string): string =>
+    Array.from(
+        text
+            .normalize('NFC')
+            .toLowerCase()
+            .replace(ETHIOPIC_PUNCTUATION, ' ')
+            .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+            .replace(/\s+/g, ' ')
+            .trim(),
+        foldFidel
+    ).join('');
+
+// FNV-1a over UTF-16 code units
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Murmur3 finalizer: spreads every input bit over the whole 32-bit output
+const mix = (value: number): number => {
+    let h = value;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+};
+
+// One seed per hash function; fixed, since signatures are compared across restarts
+const SEEDS = Array.from({ length: SIGNATURE_LENGTH }, (_, i) => mix(0x9e3779b9 + i));
+
+const shingles = (normalized: string): Set<string> => {
+    const chars = Array.from(normalized);
+    const result = new Set<string>();
+    for (let i = 0; i + SHINGLE_LENGTH <= chars.length; i++) {
+        result.add(chars.slice(i, i + SHINGLE_LENGTH).join(''));
+    }
+    return result;
+};
+
+/**
+ * MinHash signature of a text, or null when it is too short to compare.
+ */
+export const fingerprintText = (text: string): number[] | null => {
+    const set = shingles(normalizeForFingerprint(text));
+    if (set.size < MIN_SHINGLES) return null;
+
+    const signature = new Array<number>(SIGNATURE_LENGTH).fill(0xffffffff);
+    for (const shingle of set) {
+        const hash = hashString(shingle);
+        for (let i = 0; i < SIGNATURE_LENGTH; i++) {
+            const value = mix(hash ^ SEEDS[i]);
+            if (value < signature[i]) signature[i] = value;
+        }
+    }
+    return signature;
+};
+
+/**
+ * Estimated Jaccard similarity: the share of hash functions whose minimum agrees.
+ */
+export const signatureSimilarity = (a: number[], b: number[]): number => {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let equal = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === b[i]) equal++;
+    }
+    return equal / a.length;
+};
+
+export const formatDuplicateMessage = (match: DuplicateMatch): string =>
+    `Likely duplicate of "${match.title}" (${Math.round(match.similarity * 100)}% similar)`;
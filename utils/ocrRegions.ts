@@ -0,0 +1,144 @@
+/**
+ * Region-of-interest helpers for multi-region OCR
+ * - Regions are drawn on the preview and stored normalized (0..1), like the
+ *   perspective corners, so they survive re-runs with a different upscale
+ * - Regions are recognized in reading order and come back as labelled sections
+ * - "Ignore" regions are never recognized and mask words out of the others
+ */
+
+import type { Bbox, Page, Rectangle } from 'tesseract.js';
+
+export type RegionRole = 'title' | 'verse' | 'chorus' | 'ignore';
+
+export interface RegionRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface OCRRegion {
+    id: string;
+    role: RegionRole;
+    rect: RegionRect; // Normalized to the OCR image
+    languages?: string; // Overrides the page languages, e.g. "eng" for an English title
+}
+
+export interface OCRSection {
+    regionId: string;
+    role: Exclude<RegionRole, 'ignore'>;
+    label: string; // e.g. "Verse 2"
+    text: string;
+    confidence: number;
+}
+
+export const REGION_ROLES: { role: RegionRole; label: string; className: string }[] = [
+    { role: 'title', label: 'Title', className: 'border-sky-500 bg-sky-500/10' },
+    { role: 'verse', label: 'Verse', className: 'border-emerald-500 bg-emerald-500/10' },
+    { role: 'chorus', label: 'Chorus', className: 'border-amber-500 bg-amber-500/10' },
+    { role: 'ignore', label: 'Ignore', className: 'border-slate-500 bg-slate-500/30' },
+];
+
+let nextRegionId = 0;
+
+export const createRegion = (rect: RegionRect, role: RegionRole = 'verse'): OCRRegion => ({
+    id: `region-${nextRegionId++}`,
+    role,
+    rect,
+});
+
+/**
+ * Sorts regions top to bottom; regions starting above the vertical middle of
+ * the current row's first region count as the same row and go left to right.
+ */
+export const sortReadingOrder = (regions: OCRRegion[]): OCRRegion[] => {
+    const byTop = [...regions].sort((a, b) => a.rect.y - b.rect.y);
+    const rows: OCRRegion[][] = [];
+
+    for (const region of byTop) {
+        const row = rows[rows.length - 1];
+        if (row && region.rect.y < row[0].rect.y + row[0].rect.height / 2) {
+            row.push(region);
+        } else {
+            rows.push([region]);
+        }
+    }
+    return rows.flatMap((row) => row.sort((a, b) => a.rect.x - b.rect.x));
+};
+
+export const toPixelRectangle = (rect: RegionRect, size: { width: number; height: number }): Rectangle => ({
+    left: Math.round(rect.x * size.width),
+    top: Math.round(rect.y * size.height),
+    width: Math.max(1, Math.round(rect.width * size.width)),
+    height: Math.max(1, Math.round(rect.height * size.height)),
+});
+
+const containsCenter = (rect: Rectangle, bbox: Bbox) => {
+    const cx = (bbox.x0 + bbox.x1) / 2;
+    const cy = (bbox.y0 + bbox.y1) / 2;
+    return cx >= rect.left && cx <= rect.left + rect.width && cy >= rect.top && cy <= rect.top + rect.height;
+};
+
+/**
+ * Drops words whose center lies inside any of the masks and rebuilds the
+ * text from what is left. Empty lines, paragraphs and blocks are removed.
+ */
+export const maskPage = (page: Page, masks: Rectangle[]): Page => {
+    if (masks.length === 0) return page;
+    const keep = (bbox: Bbox) => !masks.some((mask) => containsCenter(mask, bbox));
+
+    const blocks = (page.blocks ?? [])
+        .map((block) => {
+            const paragraphs = block.paragraphs
+                .map((paragraph) => {
+                    const lines = paragraph.lines
+                        .map((line) => {
+                            const words = line.words.filter((word) => keep(word.bbox));
+                            return { ...line, words, text: words.map((word) => word.text).join(' ') + '\n' };
+                        })
+                        .filter((line) => line.words.length > 0);
+                    return { ...paragraph, lines, text: lines.map((line) => line.text).join('') };
+                })
+                .filter((paragraph) => paragraph.lines.length > 0);
+            return { ...block, paragraphs, text: paragraphs.map((paragraph) => paragraph.text).join('\n') };
+        })
+        .filter((block) => block.paragraphs.length > 0);
+
+    return { ...page, blocks, text: blocks.map((block) => block.text).join('\n') };
+};
+
+/**
+ * Numbers repeated roles ("Verse 1", "Verse 2") once there is more than one.
+ */
+export const labelSections = (regions: OCRRegion[]): Map<string, string> => {
+    const labels = new Map<string, string>();
+    const totals = new Map<RegionRole, number>();
+    regions.forEach((region) => totals.set(region.role, (totals.get(region.role) ?? 0) + 1));
+
+    const seen = new Map<RegionRole, number>();
+    for (const region of regions) {
+        const base = REGION_ROLES.find((r) => r.role === region.role)?.label ?? region.role;
+        const count = (seen.get(region.role) ?? 0) + 1;
+        seen.set(region.role, count);
+        labels.set(region.id, (totals.get(region.role) ?? 0) > 1 ? `${base} ${count}` : base);
+    }
+    return labels;
+};
+
+export const formatSections = (sections: OCRSection[]): string =>
+    sections.map((section) => `[${section.label}]\n${section.text}`).join('\n\n');
+
+/**
+ * Combines the per-region results into one page so word boxes, review and
+ * overlays keep working. Region results are already in full-image coordinates.
+ */
+export const mergePages = (pages: Page[], text: string): Page | null => {
+    if (pages.length === 0) return null;
+    const confidence = pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length;
+    return {
+        ...pages[0],
+        text,
+        confidence,
+        blocks: pages.flatMap((page) => page.blocks ?? []),
+    };
+};
@@ -0,0 +1,109 @@
+/**
+ * Word-level helpers for Tesseract results
+ * - Flattens the block/paragraph/line/word tree into a reading-order list
+ * - Locates each recognized word inside the (possibly edited) result text
+ */
+
+import type { Bbox, Page } from 'tesseract.js';
+
+export interface OCRWord {
+    index: number; // Position in reading order, stable for a given result
+    text: string;
+    confidence: number;
+    bbox: Bbox;
+    line: number;
+}
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+export interface LocatedWord extends OCRWord {
+    range: TextRange | null; // null once the word can no longer be found in the text
+}
+
+// How far ahead of the previous match a word may be. Keeps a word that was
+// edited away from latching onto a far later duplicate and derailing the rest.
+const SEARCH_WINDOW = 200;
+
+export const extractWords = (page: Page | null | undefined): OCRWord[] => {
+    const words: OCRWord[] = [];
+    let line = 0;
+
+    for (const block of page?.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+            for (const ocrLine of paragraph.lines) {
+                for (const word of ocrLine.words) {
+                    if (!word.text.trim()) continue;
+                    words.push({
+                        index: words.length,
+                        text: word.text,
+                        confidence: word.confidence,
+                        bbox: word.bbox,
+                        line,
+                    });
+                }
+                line++;
+            }
+        }
+    }
+    return words;
+};
+
+/**
+ * Maps words to character ranges by walking the text in reading order.
+ * Words that were edited or deleted get a null range; the rest still line up.
+ */
+export const locateWords = (text: string, words: OCRWord[]): LocatedWord[] => {
+    let cursor = 0;
+
+    return words.map((word) => {
+        const start = text.indexOf(word.text, cursor);
+        if (start < 0 || start - cursor > SEARCH_WINDOW) {
+            return { ...word, range: null };
+        }
+        cursor = start + word.text.length;
+        return { ...word, range: { start, end: cursor } };
+    });
+};
+
+
+export interface LocatedLine {
+    index: number;
+    bbox: Bbox;
+    range: TextRange | null;
+}
+
+/**
+ * Groups located words back into lines, with the union of their boxes and
+ * of the text ranges that could still be found.
+ */
+export const groupLines = (words: LocatedWord[]): LocatedLine[] => {
+    const lines = new Map<number, LocatedLine>();
+
+    for (const word of words) {
+        const line = lines.get(word.line);
+        if (!line) {
+            lines.set(word.line, { index: word.line, bbox: { ...word.bbox }, range: word.range && { ...word.range } });
+            continue;
+        }
+
+        line.bbox.x0 = Math.min(line.bbox.x0, word.bbox.x0);
+        line.bbox.y0 = Math.min(line.bbox.y0, word.bbox.y0);
+        line.bbox.x1 = Math.max(line.bbox.x1, word.bbox.x1);
+        line.bbox.y1 = Math.max(line.bbox.y1, word.bbox.y1);
+        if (word.range) {
+            line.range = line.range
+                ? { start: Math.min(line.range.start, word.range.start), end: Math.max(line.range.end, word.range.end) }
+                : { ...word.range };
+        }
+    }
+    return Array.from(lines.values());
+};
+
+/**
+ * Finds the word or line whose range contains the given caret offset.
+ */
+export const findAtOffset = <T extends { range: TextRange | null }>(items: T[], offset: number): T | undefined =>
+    items.find((item) => item.range && offset >= item.range.start && offset <= item.range.end);
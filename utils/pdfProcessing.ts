@@ -0,0 +1,80 @@
+/**
+ * PDF Utilities for Amharic OCR
+ * Rasterizes PDF pages in the browser so each page can go through the
+ * regular image pipeline (preprocessImage -> performOCR).
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// PDF user space is 72 units per inch; Tesseract works best around 300 DPI
+const PDF_POINTS_PER_INCH = 72;
+const OCR_RENDER_DPI = 300;
+
+export const isPdfFile = (file: File): boolean =>
+    file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Loads pdf.js lazily: it touches browser-only globals and must not be
+ * evaluated during server rendering.
+ */
+async function loadPdfjs() {
+    const pdfjs = await import('pdfjs-dist');
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    }
+    return pdfjs;
+}
+
+export const openPdf = async (file: File): Promise<PDFDocumentProxy> => {
+    const pdfjs = await loadPdfjs();
+    const data = new Uint8Array(await file.arrayBuffer());
+    return pdfjs.getDocument({ data }).promise;
+};
+
+/**
+ * Renders a single page (1-based) onto a fresh canvas at the given scale.
+ */
+async function renderPageToCanvas(pdf: PDFDocumentProxy, pageNumber: number, scale: number): Promise<HTMLCanvasElement> {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+
+    // White background: scanned PDFs with transparency would otherwise binarize as black
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    await page.render({ canvas, viewport }).promise;
+    page.cleanup();
+    return canvas;
+}
+
+/**
+ * Renders a small preview of a page for the page picker.
+ */
+export const renderPdfThumbnail = async (pdf: PDFDocumentProxy, pageNumber: number, targetWidth: number = 160): Promise<string> => {
+    const page = await pdf.getPage(pageNumber);
+    const scale = targetWidth / page.getViewport({ scale: 1 }).width;
+    const canvas = await renderPageToCanvas(pdf, pageNumber, scale);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Rasterizes a page at OCR resolution and wraps it as a PNG File, so it can be
+ * handled exactly like an uploaded image.
+ */
+export const rasterizePdfPage = async (pdf: PDFDocumentProxy, pageNumber: number, sourceName: string): Promise<File> => {
+    const canvas = await renderPageToCanvas(pdf, pageNumber, OCR_RENDER_DPI / PDF_POINTS_PER_INCH);
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((b) => (b ? resolve(b) : reject(new Error(`Failed to rasterize page ${pageNumber}`))), 'image/png');
+    });
+
+    const baseName = sourceName.replace(/\.pdf$/i, '');
+    return new File([blob], `${baseName}-p${pageNumber}.png`, { type: 'image/png' });
+};
@@ -0,0 +1,40 @@
+/**
+ * Preprocessing Web Worker
+ * Runs the image pipeline on an OffscreenCanvas so large photos don't freeze
+ * the page. The bitmap is transferred in, the PNG blob comes back.
+ */
+
+import { PipelineStage, PreprocessOptions, renderPreprocessed } from '@/utils/imagePipeline';
+
+export interface PreprocessRequest {
+    id: number;
+    bitmap: ImageBitmap;
+    options: PreprocessOptions;
+}
+
+export type PreprocessResponse =
+    | { id: number; type: 'progress'; stage: PipelineStage; progress: number }
+    | { id: number; type: 'done'; blob: Blob }
+    | { id: number; type: 'error'; message: string };
+
+const post = (message: PreprocessResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<PreprocessRequest>) => {
+    const { id, bitmap, options } = e.data;
+    try {
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+        renderPreprocessed(ctx, bitmap, bitmap.width, bitmap.height, options, (stage, progress) =>
+            post({ id, type: 'progress', stage, progress })
+        );
+
+        const blob = await canvas.convertToBlob({ type: 'image/png' });
+        post({ id, type: 'done', blob });
+    } catch (err) {
+        post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,65 @@
+/**
+ * Named preprocessing presets
+ * Built-in presets cover the usual kinds of lyric sheets we get; user presets
+ * are stored in localStorage so they survive reloads.
+ */
+
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from '@/utils/imageProcessing';
+
+export interface PreprocessPreset {
+    name: string;
+    options: Required<PreprocessOptions>;
+    builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'amharic-ocr:preprocess-presets';
+
+export const BUILT_IN_PRESETS: PreprocessPreset[] = [
+    { name: 'Default', builtIn: true, options: DEFAULT_PREPROCESS_OPTIONS },
+    {
+        // Faint, uneven toner: a larger window and a low C keep thin strokes
+        name: 'Faded photocopy',
+        builtIn: true,
+        options: { ...DEFAULT_PREPROCESS_OPTIONS, windowSize: 61, constant: 8, denoise: true },
+    },
+    {
+        // Uneven lighting, sensor noise and a tilted page, usually already high resolution
+        name: 'Phone photo',
+        builtIn: true,
+        options: { ...DEFAULT_PREPROCESS_OPTIONS, windowSize: 51, constant: 12, denoise: true, deskew: true, upscaleFactor: 1.5 },
+    },
+    {
+        name: 'Clean scan',
+        builtIn: true,
+        options: { ...DEFAULT_PREPROCESS_OPTIONS, windowSize: 31, constant: 15, upscale: false },
+    },
+    {
+        name: 'Light text on dark',
+        builtIn: true,
+        options: { ...DEFAULT_PREPROCESS_OPTIONS, invert: true },
+    },
+];
+
+export const loadUserPresets = (): PreprocessPreset[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const parsed = JSON.parse(raw) as PreprocessPreset[];
+        // Fill in options added after the preset was saved
+        return parsed.map((preset) => ({
+            name: preset.name,
+            options: { ...DEFAULT_PREPROCESS_OPTIONS, ...preset.options },
+        }));
+    } catch (e) {
+        console.error('Failed to load preprocessing presets', e);
+        return [];
+    }
+};
+
+export const saveUserPresets = (presets: PreprocessPreset[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(({ name, options }) => ({ name, options }))));
+    } catch (e) {
+        console.error('Failed to save preprocessing presets', e);
+    }
+};
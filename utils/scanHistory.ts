@@ -0,0 +1,124 @@
+/**
+ * Local scan history stored in IndexedDB
+ * - "scans" holds the small summaries shown in the history list
+ * - "scanData" holds the heavy parts (original image, preprocessed image,
+ *   Tesseract result) and is only read when a scan is reopened
+ * Nothing here leaves the browser.
+ */
+
+import type { Page } from 'tesseract.js';
+import type { Quad } from '@/utils/imagePipeline';
+import type { OCRRegion } from '@/utils/ocrRegions';
+import type { LyricsDocument } from '@/utils/lyrics';
+import { openDatabase, promisify, STORES, transactionDone } from '@/utils/localDatabase';
+
+const SUMMARY_STORE = STORES.scans;
+const DATA_STORE = STORES.scanData;
+
+export interface ScanSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: string;            // Small JPEG data URL
+    ocrText: string;              // Raw Tesseract text
+    editedText: string;           // Text as last edited by hand
+    confidence: number;
+    languages: string;
+    lyrics: LyricsDocument | null; // Song structure, only when edited by hand
+}
+
+export interface ScanData {
+    id: string;
+    image: Blob;                   // Original upload
+    processedImage: string | null; // Preprocessed image OCR ran on (data URL)
+    page: Page | null;             // Full result incl. word boxes
+    perspective: Quad | null;
+    regions: OCRRegion[];
+}
+
+export type ScanRecord = ScanSummary & Omit<ScanData, 'id'>;
+
+export type NewScan = Omit<ScanRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+const splitRecord = (record: ScanRecord): [ScanSummary, ScanData] => {
+    const { image, processedImage, page, perspective, regions, ...summary } = record;
+    return [summary, { id: record.id, image, processedImage, page, perspective, regions }];
+};
+
+/**
+ * All scans, newest first.
+ */
+export const listScans = async (): Promise<ScanSummary[]> => {
+    const db = await openDatabase();
+    const scans = await promisify(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<ScanSummary[]>);
+    return scans.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getScan = async (id: string): Promise<ScanRecord | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE]);
+    const [summary, data] = await Promise.all([
+        promisify(transaction.objectStore(SUMMARY_STORE).get(id) as IDBRequest<ScanSummary | undefined>),
+        promisify(transaction.objectStore(DATA_STORE).get(id) as IDBRequest<ScanData | undefined>),
+    ]);
+    if (!summary || !data) return null;
+    return { ...data, ...summary };
+};
+
+/**
+ * Stores a new scan and returns its id.
+ */
+export const addScan = async (scan: NewScan): Promise<string> => {
+    const now = Date.now();
+    const record: ScanRecord = { ...scan, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    const [summary, data] = splitRecord(record);
+
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(DATA_STORE).put(data);
+    await transactionDone(transaction);
+    return record.id;
+};
+
+/**
+ * Merges `patch` into an existing scan. Unknown ids are ignored, so a scan
+ * deleted from the history is not brought back by a late edit.
+ */
+export const updateScan = async (id: string, patch: Partial<Omit<ScanRecord, 'id' | 'createdAt'>>): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    const summaries = transaction.objectStore(SUMMARY_STORE);
+    const datas = transaction.objectStore(DATA_STORE);
+
+    const [summary, data] = await Promise.all([
+        promisify(summaries.get(id) as IDBRequest<ScanSummary | undefined>),
+        promisify(datas.get(id) as IDBRequest<ScanData | undefined>),
+    ]);
+    if (summary && data) {
+        const [nextSummary, nextData] = splitRecord({ ...data, ...summary, ...patch, id, updatedAt: Date.now() });
+        summaries.put(nextSummary);
+        datas.put(nextData);
+    }
+    await transactionDone(transaction);
+};
+
+export const deleteScan = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+/**
+ * Case-insensitive match on the file name, the edited text and the raw OCR text.
+ */
+export const searchScans = (scans: ScanSummary[], query: string): ScanSummary[] => {
+    const needle = query.trim().normalize('NFC').toLowerCase();
+    if (!needle) return scans;
+    return scans.filter((scan) =>
+        [scan.name, scan.editedText, scan.ocrText].some((value) => value.normalize('NFC').toLowerCase().includes(needle))
+    );
+};
@@ -0,0 +1,151 @@
+/**
+ * Server-side authentication for uploads
+ * - Scripted uploaders send a per-user API key (Authorization: Bearer <key>
+ *   or x-api-key). Only SHA-256 hashes of the keys are configured, in
+ *   UPLOAD_API_KEYS, e.g. [{"id":"abebe","name":"Abebe","hash":"…","rateLimit":60}]
+ *   (scripts/create-api-key.mjs prints a new key and its entry)
+ * - The web client signs in once with its key and then uses an HttpOnly
+ *   session cookie signed with SESSION_SECRET, so the key is never kept in
+ *   the page
+ * Keys are 256-bit random tokens, so a plain SHA-256 is enough; a slow
+ * password hash would only add latency to every request.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+export interface ApiKeyEntry {
+    id: string;
+    name: string;
+    hash: string;        // Hex SHA-256 of the key
+    rateLimit?: number;  // Uploads per minute; defaults to UPLOAD_RATE_LIMIT
+}
+
+export interface AuthenticatedUploader {
+    keyId: string;
+    name: string;
+    rateLimit: number;
+    method: 'api-key' | 'session';
+}
+
+export const SESSION_COOKIE = 'amharic-ocr-session';
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const DEFAULT_RATE_LIMIT = 30;
+const MIN_SECRET_LENGTH = 32;
+
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+const safeEqual = (a: Buffer, b: Buffer) => a.length === b.length && timingSafeEqual(a, b);
+
+/**
+ * A malformed UPLOAD_API_KEYS disables key auth rather than crashing the route.
+ */
+export const loadApiKeys = (): ApiKeyEntry[] => {
+    const raw = process.env.UPLOAD_API_KEYS;
+    if (!raw) return [];
+    let entries: unknown;
+    try {
+        entries = JSON.parse(raw);
+    } catch (error) {
+        console.error('[Auth] UPLOAD_API_KEYS is not valid JSON:', error);
+        return [];
+    }
+    if (!Array.isArray(entries)) {
+        console.error('[Auth] UPLOAD_API_KEYS must be a JSON array of {id, name, hash} objects');
+        return [];
+    }
+    return (entries as ApiKeyEntry[]).filter((entry) =>
+        entry?.id && entry.name && typeof entry.hash === 'string' && /^[0-9a-f]{64}$/i.test(entry.hash)
+    );
+};
+
+const defaultRateLimit = (): number => Number(process.env.UPLOAD_RATE_LIMIT) || DEFAULT_RATE_LIMIT;
+
+const toUploader = (entry: ApiKeyEntry, method: AuthenticatedUploader['method']): AuthenticatedUploader => ({
+    keyId: entry.id,
+    name: entry.name,
+    rateLimit: entry.rateLimit ?? defaultRateLimit(),
+    method,
+});
+
+export const findApiKey = (key: string): ApiKeyEntry | null => {
+    const hash = Buffer.from(hashApiKey(key), 'hex');
+    // Compare against every entry so the timing does not reveal which one matched
+    let match: ApiKeyEntry | null = null;
+    for (const entry of loadApiKeys()) {
+        if (safeEqual(hash, Buffer.from(entry.hash, 'hex'))) match = entry;
+    }
+    return match;
+};
+
+const sessionSecret = (): string | null => {
+    const secret = process.env.SESSION_SECRET;
+    return secret && secret.length >= MIN_SECRET_LENGTH ? secret : null;
+};
+
+export const sessionsEnabled = (): boolean => sessionSecret() !== null;
+
+const sign = (value: string, secret: string) => createHmac('sha256', secret).update(value).digest('base64url');
+
+/**
+ * Token for the session cookie: base64url({sub, exp}).signature
+ */
+export const createSessionToken = (keyId: string): string | null => {
+    const secret = sessionSecret();
+    if (!secret) return null;
+    const payload = Buffer.from(JSON.stringify({
+        sub: keyId,
+        exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+    })).toString('base64url');
+    return `${payload}.${sign(payload, secret)}`;
+};
+
+/**
+ * Returns the key entry of a valid, unexpired session whose key still exists,
+ * so removing a key from UPLOAD_API_KEYS also ends its sessions.
+ */
+const verifySessionToken = (token: string): ApiKeyEntry | null => {
+    const secret = sessionSecret();
+    const [payload, signature] = token.split('.');
+    if (!secret || !payload || !signature) return null;
+    if (!safeEqual(Buffer.from(signature), Buffer.from(sign(payload, secret)))) return null;
+
+    try {
+        const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString()) as { sub: string; exp: number };
+        if (exp * 1000 < Date.now()) return null;
+        return loadApiKeys().find((entry) => entry.id === sub) ?? null;
+    } catch {
+        return null;
+    }
+};
+
+const presentedApiKey = (request: NextRequest): string | null => {
+    const authorization = request.headers.get('authorization');
+    if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+    return request.headers.get('x-api-key');
+};
+
+/**
+ * An explicit API key wins over the session cookie. A wrong key is never
+ * retried as a session, so scripts get a clear 401.
+ */
+export const authenticateRequest = (request: NextRequest): AuthenticatedUploader | null => {
+    const key = presentedApiKey(request);
+    if (key) {
+        const entry = findApiKey(key);
+        return entry ? toUploader(entry, 'api-key') : null;
+    }
+
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    const entry = token ? verifySessionToken(token) : null;
+    return entry ? toUploader(entry, 'session') : null;
+};
+
+export const sessionCookieOptions = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+};
@@ -0,0 +1,129 @@
+/**
+ * Fingerprints of earlier uploads, for near-duplicate detection
+ * - One JSON file per upload in FINGERPRINT_DIR (default .data/fingerprints),
+ *   named by its idempotency key, which is also the id the sinks received
+ * - Loaded into memory on first use and kept in step with every change; with
+ *   several server processes each only sees the others' uploads after a restart
+ * - Signatures from another FINGERPRINT_VERSION are ignored
+ * - DUPLICATE_THRESHOLD (default 0.5) is the estimated similarity from which
+ *   an upload counts as a likely duplicate
+ */
+
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { DuplicateMatch, DuplicateResolution, FINGERPRINT_VERSION, signatureSimilarity } from '@/utils/lyricsFingerprint';
+
+export interface FingerprintEntry {
+    id: string;
+    title: string;
+    uploadedBy: string;
+    uploadedAt: string;
+    version: number;
+    signature: number[];
+}
+
+// Noisy OCR copies of one song measure 0.5-0.9, unrelated songs well under 0.1
+const DEFAULT_THRESHOLD = 0.5;
+
+const ID_PATTERN = /^[\w-]{1,128}$/;
+
+const indexDir = () => process.env.FINGERPRINT_DIR || path.join(process.cwd(), '.data', 'fingerprints');
+
+const entryPath = (id: string) => {
+    if (!ID_PATTERN.test(id)) throw new Error(`Invalid fingerprint id "${id}"`);
+    return path.join(indexDir(), `${id}.json`);
+};
+
+const threshold = () => Number(process.env.DUPLICATE_THRESHOLD) || DEFAULT_THRESHOLD;
+
+let loading: Promise<Map<string, FingerprintEntry>> | null = null;
+
+const loadIndex = (): Promise<Map<string, FingerprintEntry>> => {
+    loading ??= (async () => {
+        const index = new Map<string, FingerprintEntry>();
+        let files: string[];
+        try {
+            files = (await readdir(indexDir())).filter((file) => file.endsWith('.json'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return index;
+            throw error;
+        }
+
+        for (const file of files) {
+            try {
+                const entry = JSON.parse(await readFile(path.join(indexDir(), file), 'utf8')) as FingerprintEntry;
+                if (entry.version === FINGERPRINT_VERSION) index.set(entry.id, entry);
+            } catch (error) {
+                console.error(`[Duplicates] Skipping unreadable fingerprint ${file}:`, error);
+            }
+        }
+        console.log(`[Duplicates] Loaded ${index.size} fingerprints`);
+        return index;
+    })().catch((error) => {
+        loading = null; // Try again on the next request
+        throw error;
+    });
+    return loading;
+};
+
+/**
+ * The most similar earlier upload at or above the threshold, if any.
+ * `excludeId` keeps a retried upload from matching itself.
+ */
+export const findDuplicate = async (signature: number[], excludeId?: string): Promise<DuplicateMatch | null> => {
+    let best: DuplicateMatch | null = null;
+    for (const entry of (await loadIndex()).values()) {
+        if (entry.id === excludeId) continue;
+        const similarity = signatureSimilarity(signature, entry.signature);
+        if (similarity >= threshold() && similarity > (best?.similarity ?? 0)) {
+            best = { id: entry.id, title: entry.title, similarity, uploadedBy: entry.uploadedBy, uploadedAt: entry.uploadedAt };
+        }
+    }
+    return best;
+};
+
+export const hasFingerprint = async (id: string): Promise<boolean> => (await loadIndex()).has(id);
+
+export const recordFingerprint = async (entry: Omit<FingerprintEntry, 'version'>): Promise<void> => {
+    const index = await loadIndex();
+    const stored: FingerprintEntry = { ...entry, version: FINGERPRINT_VERSION };
+    const target = entryPath(entry.id);
+    await mkdir(indexDir(), { recursive: true });
+    await writeFile(`${target}.${process.pid}.tmp`, JSON.stringify(stored));
+    await rename(`${target}.${process.pid}.tmp`, target);
+    index.set(entry.id, stored);
+};
+
+export const removeFingerprint = async (id: string): Promise<void> => {
+    const index = await loadIndex();
+    try {
+        await unlink(entryPath(id));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    index.delete(id);
+};
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Name shown in "likely duplicate of ...": the song title, else its first line.
+ */
+export const uploadTitle = (text: string, lyricsTitle?: string): string => {
+    const title = lyricsTitle?.trim() || text.split('\n').map((line) => line.trim()).find(Boolean) || 'Untitled';
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+};
+
+/**
+ * Remembers an accepted upload, following the user's choice for a duplicate:
+ * an overwritten upload is forgotten, and a merge keeps the earlier upload as
+ * the one later scans are compared with.
+ */
+export const rememberUpload = async (
+    entry: Omit<FingerprintEntry, 'version' | 'uploadedAt'>,
+    resolution?: DuplicateResolution
+): Promise<void> => {
+    if (resolution?.action === 'merge' && resolution.of) return;
+    if (resolution?.action === 'overwrite' && resolution.of) await removeFingerprint(resolution.of);
+    await recordFingerprint({ ...entry, uploadedAt: new Date().toISOString() });
+};
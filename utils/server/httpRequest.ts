@@ -0,0 +1,135 @@
+/**
+ * Outgoing HTTP(S) requests for the upload sinks
+ * - http:// and https:// URLs; a sink can add a private CA (PEM file) on
+ *   top of the system roots, e.g. for a self-signed backend
+ * - Connection errors, timeouts and 5xx answers are retried with exponential
+ *   backoff (REMOTE_BACKEND_RETRIES attempts, REMOTE_BACKEND_TIMEOUT_MS each)
+ */
+
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { readFileSync } from 'fs';
+
+export interface HttpResponse {
+    status: number;
+    data: unknown;
+}
+
+export interface HttpRequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    caFile?: string;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const BASE_DELAY_MS = 500;
+
+export const isRetryableStatus = (status: number) => status >= 500;
+
+const trustedCAs = new Map<string, string[]>();
+
+// Read once per file; passing `ca` replaces Node's roots, so they are added back
+const loadCAs = (file: string): string[] => {
+    let cas = trustedCAs.get(file);
+    if (!cas) {
+        cas = [...tls.rootCertificates, readFileSync(file, 'utf8')];
+        trustedCAs.set(file, cas);
+    }
+    return cas;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * One attempt. Resolves with any HTTP answer (JSON bodies parsed, anything
+ * else wrapped as { message }); rejects when the server could not be reached
+ * or did not answer in time.
+ */
+export function httpRequest(urlString: string, body: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+        try {
+            // Parse URL (supports IPv6 in brackets: http://[2001:db8::1]:8080/path)
+            const url = new URL(urlString);
+            const isHttps = url.protocol === 'https:';
+            if (!isHttps && url.protocol !== 'http:') {
+                throw new Error(`Unsupported protocol ${url.protocol}`);
+            }
+
+            const requestOptions: https.RequestOptions = {
+                hostname: url.hostname, // IPv6 addresses are automatically handled
+                port: url.port || (isHttps ? 443 : 80),
+                path: url.pathname + url.search,
+                method: options.method ?? 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body),
+                    'User-Agent': 'NextJS-OCR-Proxy/1.0',
+                    ...options.headers,
+                },
+                // Enable IPv6 support
+                family: 0, // 0 = both IPv4 and IPv6, 6 = IPv6 only
+                ...(isHttps && options.caFile && { ca: loadCAs(options.caFile) }),
+            };
+
+            const onResponse = (res: http.IncomingMessage) => {
+                let data = '';
+
+                res.on('data', (chunk) => {
+                    data += chunk;
+                });
+
+                res.on('end', () => {
+                    try {
+                        resolve({ status: res.statusCode || 200, data: data ? JSON.parse(data) : {} });
+                    } catch {
+                        // If response is not JSON, return as plain text
+                        resolve({ status: res.statusCode || 200, data: { message: data || 'Success' } });
+                    }
+                });
+            };
+
+            const req = isHttps ? https.request(requestOptions, onResponse) : http.request(requestOptions, onResponse);
+
+            req.on('error', (error) => {
+                reject(new Error(`Failed to connect to ${url.host}: ${error.message}`));
+            });
+
+            req.on('timeout', () => {
+                req.destroy(new Error('Request timed out'));
+            });
+
+            req.setTimeout(Number(process.env.REMOTE_BACKEND_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+
+            req.write(body);
+            req.end();
+        } catch (error) {
+            reject(error);
+        }
+    });
+}
+
+/**
+ * Runs `attempt` until it answers with anything but a 5xx. Resolves the last
+ * answer (which may still be a 5xx once the attempts run out); rejects when
+ * no attempt got an answer.
+ */
+export const withRetry = async <T extends { status: number }>(
+    label: string,
+    attempt: () => Promise<T>,
+    attempts: number = Number(process.env.REMOTE_BACKEND_RETRIES) || DEFAULT_ATTEMPTS
+): Promise<T> => {
+    for (let n = 1; ; n++) {
+        try {
+            const response = await attempt();
+            if (!isRetryableStatus(response.status) || n >= attempts) return response;
+            console.warn(`[${label}] Answered ${response.status} (attempt ${n}/${attempts})`);
+        } catch (error) {
+            if (n >= attempts) throw error;
+            console.warn(`[${label}] ${error instanceof Error ? error.message : error} (attempt ${n}/${attempts})`);
+        }
+        // 0.5s, 1s, 2s, ... with jitter so parallel retries do not arrive together
+        await sleep(BASE_DELAY_MS * 2 ** (n - 1) * (0.5 + Math.random()));
+    }
+};
@@ -0,0 +1,96 @@
+/**
+ * Server-side preprocessing for /api/ocr
+ * The same pixel pipeline as the browser (imagePipeline.ts); sharp stands in
+ * for the canvas: it decodes the upload to raw RGBA, does the high-quality
+ * resize to the target size and encodes the result as PNG for Tesseract.
+ */
+
+import sharp from 'sharp';
+import { computeTargetSize, PreprocessOptions, RawImage, resolveOptions, runPipeline, warpPerspective } from '@/utils/imagePipeline';
+
+export interface PreprocessedImage {
+    png: Buffer;
+    width: number;
+    height: number;
+    sourceWidth: number;
+    sourceHeight: number;
+}
+
+// Decompression bombs: a small file can still describe a huge image
+const MAX_INPUT_PIXELS = 100_000_000;
+
+// The pipeline holds several full-size buffers (RGBA, integral image, copies),
+// so the upscaled or warped result is kept under this; larger targets are scaled down
+const MAX_OUTPUT_PIXELS = 25_000_000;
+
+export const isImageDecodeError = (err: unknown): boolean =>
+    err instanceof Error && err.name === 'ImageDecodeError';
+
+const fitPixels = (width: number, height: number) => {
+    if (width * height <= MAX_OUTPUT_PIXELS) return { width, height };
+    const scale = Math.sqrt(MAX_OUTPUT_PIXELS / (width * height));
+    return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) };
+};
+
+// A copy: sharp may hand out a view into its shared buffer pool
+const toRawImage = ({ data, info }: { data: Buffer; info: sharp.OutputInfo }): RawImage => {
+    const pixels = new Uint8ClampedArray(data.byteLength);
+    pixels.set(data);
+    return { data: pixels, width: info.width, height: info.height };
+};
+
+// Phone photos are often stored sideways with an EXIF orientation; rotate() applies it
+const decode = (input: Buffer) => sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+/**
+ * Decodes an uploaded image (PNG, JPEG, WebP, TIFF, ...) and runs the
+ * preprocessing pipeline on it. With `options` set to null the image is only
+ * decoded and re-encoded, for callers that want the raw scan.
+ * A file that cannot be decoded rejects with an error named ImageDecodeError.
+ */
+export const preprocessImageBuffer = async (
+    input: Buffer,
+    options: PreprocessOptions | null = {}
+): Promise<PreprocessedImage> => {
+    let source;
+    try {
+        source = await decode(input).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    } catch (cause) {
+        // Nearly always an unsupported or truncated file rather than a server fault
+        const err = new Error(cause instanceof Error ? cause.message : 'Could not decode image', { cause });
+        err.name = 'ImageDecodeError';
+        throw err;
+    }
+    const { width: sourceWidth, height: sourceHeight } = source.info;
+
+    let image: RawImage;
+    if (!options) {
+        image = toRawImage(source);
+    } else {
+        const config = resolveOptions(options);
+        const size = computeTargetSize(sourceWidth, sourceHeight, config);
+        const { corners } = size;
+        const { width, height } = fitPixels(size.width, size.height);
+
+        let target: RawImage;
+        if (corners) {
+            // Sample the full-resolution photo directly, with the upscale folded into the warp
+            target = warpPerspective(toRawImage(source), corners, width, height);
+        } else if (width === sourceWidth && height === sourceHeight) {
+            target = toRawImage(source);
+        } else {
+            target = toRawImage(await decode(input)
+                .resize(width, height, { fit: 'fill', kernel: 'lanczos3' })
+                .ensureAlpha()
+                .raw()
+                .toBuffer({ resolveWithObject: true }));
+        }
+        image = runPipeline(target, config);
+    }
+
+    const png = await sharp(Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), {
+        raw: { width: image.width, height: image.height, channels: 4 },
+    }).png().toBuffer();
+
+    return { png, width: image.width, height: image.height, sourceWidth, sourceHeight };
+};
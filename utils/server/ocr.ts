@@ -0,0 +1,72 @@
+/**
+ * Headless OCR for /api/ocr and scripts/ocr-folder.mjs
+ * - The browser's worker pool, with Node workers (tesseract.js runs them as
+ *   worker_threads) reading the language models from public/tessdata
+ * - OCR_WORKERS sets the pool size (default 1); every worker holds its own
+ *   copy of the model, so memory grows with it
+ * - Word boxes are in the coordinates of the preprocessed image, whose size
+ *   is returned alongside them
+ */
+
+import { createWorkerPool, RecognizeOptions, WorkerPool } from '@/utils/tesseractPool';
+import { extractWords, OCRWord } from '@/utils/ocrWords';
+import type { PreprocessOptions } from '@/utils/imagePipeline';
+import { preprocessImageBuffer } from '@/utils/server/imageProcessing';
+import { TESSDATA_DIR } from '@/utils/server/tessdata';
+
+export interface OcrPageResult {
+    text: string;
+    confidence: number;
+    width: number;        // Preprocessed image the boxes refer to
+    height: number;
+    sourceWidth: number;  // Uploaded image
+    sourceHeight: number;
+    words: OCRWord[];
+}
+
+let pool: WorkerPool | null = null;
+
+const getServerPool = (): WorkerPool => {
+    pool ??= createWorkerPool(Number(process.env.OCR_WORKERS) || 1, {
+        langPath: TESSDATA_DIR,
+        gzip: false,
+        cacheMethod: 'none', // The models are already on disk; never copy them into the working directory
+        // The failed job rejects either way; without a handler tesseract.js also
+        // rethrows the error in the worker's message listener, crashing the server
+        errorHandler: (error) => console.error('[OCR] Tesseract worker error:', error),
+    });
+    return pool;
+};
+
+/**
+ * Stops the workers, so a script can exit; the next recognition starts new ones.
+ */
+export const terminateOcrWorkers = async (): Promise<void> => {
+    const current = pool;
+    pool = null;
+    await current?.terminate();
+};
+
+/**
+ * Preprocesses an uploaded image (unless `preprocess` is null) and recognizes it.
+ */
+export const recognizeImageBuffer = async (
+    image: Buffer,
+    languages: string,
+    preprocess: PreprocessOptions | null,
+    options: RecognizeOptions = {},
+    signal?: AbortSignal
+): Promise<OcrPageResult> => {
+    const processed = await preprocessImageBuffer(image, preprocess);
+    const page = await getServerPool().recognize(processed.png, languages, undefined, signal, options);
+
+    return {
+        text: page.text,
+        confidence: page.confidence,
+        width: processed.width,
+        height: processed.height,
+        sourceWidth: processed.sourceWidth,
+        sourceHeight: processed.sourceHeight,
+        words: extractWords(page),
+    };
+};
@@ -0,0 +1,82 @@
+/**
+ * Validation of the OCR settings /api/ocr and scripts/ocr-folder.mjs accept
+ * from outside, as JSON: unknown keys, wrong types and out-of-range numbers
+ * are refused with a message instead of reaching the pipeline.
+ */
+
+import { DEFAULT_ENGINE_OPTIONS, EngineOptions, OEM_OPTIONS, PSM_OPTIONS } from '@/utils/engineOptions';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from '@/utils/imagePipeline';
+
+export type Parsed<T> = { value: T } | { error: string };
+
+const isQuad = (value: unknown): boolean =>
+    Array.isArray(value) && value.length === 4 && value.every((point) =>
+        typeof point?.x === 'number' && typeof point?.y === 'number' &&
+        point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1
+    );
+
+// Bounds that keep a request from asking for an enormous image or window
+const NUMBER_LIMITS: Partial<Record<keyof PreprocessOptions, [number, number]>> = {
+    upscaleFactor: [1, 4],
+    windowSize: [3, 201],
+    constant: [-255, 255],
+};
+
+/**
+ * "false" skips preprocessing; a JSON object overrides the browser defaults.
+ */
+export const parsePreprocess = (raw: string | null): Parsed<PreprocessOptions | null> => {
+    if (raw === null || raw === '' || raw === 'true') return { value: {} };
+    if (raw === 'false') return { value: null };
+
+    let options: unknown;
+    try {
+        options = JSON.parse(raw);
+    } catch {
+        return { error: 'preprocess must be true, false or a JSON object' };
+    }
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        return { error: 'preprocess must be true, false or a JSON object' };
+    }
+
+    for (const [key, value] of Object.entries(options)) {
+        const name = key as keyof PreprocessOptions;
+        if (name === 'perspective') {
+            if (value !== null && !isQuad(value)) return { error: 'preprocess.perspective must be null or 4 {x, y} points in 0..1' };
+            continue;
+        }
+        if (!(name in DEFAULT_PREPROCESS_OPTIONS) || typeof value !== typeof DEFAULT_PREPROCESS_OPTIONS[name]) {
+            return { error: `Invalid preprocess option "${key}"` };
+        }
+        const limits = NUMBER_LIMITS[name];
+        if (limits && !(value >= limits[0] && value <= limits[1])) {
+            return { error: `preprocess.${key} must be between ${limits[0]} and ${limits[1]}` };
+        }
+    }
+    return { value: options as PreprocessOptions };
+};
+
+/**
+ * A JSON object with any of the advanced settings; the rest keep their defaults.
+ */
+export const parseEngine = (raw: string | null): Parsed<EngineOptions> => {
+    if (!raw) return { value: DEFAULT_ENGINE_OPTIONS };
+
+    let options: Record<string, unknown>;
+    try {
+        options = JSON.parse(raw);
+    } catch {
+        return { error: 'engine must be a JSON object' };
+    }
+    if (!options || typeof options !== 'object' || Array.isArray(options)) return { error: 'engine must be a JSON object' };
+
+    const engine = { ...DEFAULT_ENGINE_OPTIONS, ...options } as EngineOptions;
+    if (!PSM_OPTIONS.some((option) => option.value === String(engine.psm))) return { error: 'Invalid engine.psm' };
+    if (!OEM_OPTIONS.some((option) => option.value === Number(engine.oem))) return { error: 'Invalid engine.oem' };
+    for (const key of ['whitelist', 'blacklist', 'userWords', 'userPatterns'] as const) {
+        if (typeof engine[key] !== 'string') return { error: `engine.${key} must be a string` };
+    }
+    if (typeof engine.preserveInterwordSpaces !== 'boolean') return { error: 'engine.preserveInterwordSpaces must be a boolean' };
+
+    return { value: { ...engine, psm: String(engine.psm) as EngineOptions['psm'], oem: Number(engine.oem) } };
+};
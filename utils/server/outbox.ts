@@ -0,0 +1,127 @@
+/**
+ * Durable server-side outbox for uploads a sink did not accept in time
+ * - One directory per sink in OUTBOX_DIR (default .data/outbox), one JSON
+ *   file per upload named by its idempotency key, so the same upload is never
+ *   stored twice for a sink
+ * - Files are written to a temporary name and renamed, so a crash never
+ *   leaves half an entry behind
+ * - Entries a sink rejects outright (4xx) are moved to rejected/ for a
+ *   person to look at instead of being deleted
+ */
+
+import { access, mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface OutboxEntry {
+    id: string; // Idempotency key
+    payload: unknown;
+    createdAt: number;
+    attempts: number;
+    lastError?: string;
+}
+
+/**
+ * Delivers one entry. Resolves the HTTP status; rejects when the destination
+ * could not be reached.
+ */
+export type OutboxSender = (entry: OutboxEntry) => Promise<number>;
+
+export interface OutboxFlushResult {
+    sent: number;
+    rejected: number;
+    remaining: number;
+}
+
+const ID_PATTERN = /^[\w-]{1,128}$/;
+
+const outboxDir = (sinkId: string) => {
+    if (!ID_PATTERN.test(sinkId)) throw new Error(`Invalid sink id "${sinkId}"`);
+    return path.join(process.env.OUTBOX_DIR || path.join(process.cwd(), '.data', 'outbox'), sinkId);
+};
+const rejectedDir = (sinkId: string) => path.join(outboxDir(sinkId), 'rejected');
+
+const entryPath = (dir: string, id: string) => {
+    if (!ID_PATTERN.test(id)) throw new Error(`Invalid outbox id "${id}"`);
+    return path.join(dir, `${id}.json`);
+};
+
+const writeEntry = async (sinkId: string, entry: OutboxEntry) => {
+    await mkdir(outboxDir(sinkId), { recursive: true });
+    const target = entryPath(outboxDir(sinkId), entry.id);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry));
+    await rename(temporary, target);
+};
+
+/**
+ * Stores an upload for later. An entry with the same id is kept as is.
+ */
+export const addToOutbox = async (sinkId: string, id: string, payload: unknown, error: string): Promise<void> => {
+    try {
+        await access(entryPath(outboxDir(sinkId), id));
+        return;
+    } catch {
+        // Not stored yet
+    }
+    await writeEntry(sinkId, { id, payload, createdAt: Date.now(), attempts: 1, lastError: error });
+};
+
+/**
+ * Pending entries, oldest first.
+ */
+export const listOutbox = async (sinkId: string): Promise<OutboxEntry[]> => {
+    let files: string[];
+    try {
+        files = (await readdir(outboxDir(sinkId))).filter((file) => file.endsWith('.json'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const entries = await Promise.all(files.map(async (file) => {
+        try {
+            return JSON.parse(await readFile(path.join(outboxDir(sinkId), file), 'utf8')) as OutboxEntry;
+        } catch (error) {
+            console.error(`[Outbox] Skipping unreadable entry ${file}:`, error);
+            return null;
+        }
+    }));
+    return entries
+        .filter((entry): entry is OutboxEntry => entry !== null)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Sends a sink's pending entries in order. Stops at the first one that fails
+ * in a way worth retrying, so uploads arrive in the order they were made.
+ */
+export const flushOutbox = async (sinkId: string, send: OutboxSender): Promise<OutboxFlushResult> => {
+    const entries = await listOutbox(sinkId);
+    const result: OutboxFlushResult = { sent: 0, rejected: 0, remaining: entries.length };
+
+    for (const entry of entries) {
+        let status: number;
+        try {
+            status = await send(entry);
+        } catch (error) {
+            await writeEntry(sinkId, { ...entry, attempts: entry.attempts + 1, lastError: error instanceof Error ? error.message : String(error) });
+            break;
+        }
+
+        if (status >= 500) {
+            await writeEntry(sinkId, { ...entry, attempts: entry.attempts + 1, lastError: `HTTP ${status}` });
+            break;
+        }
+        if (status >= 400) {
+            console.error(`[Outbox] Sink "${sinkId}" rejected ${entry.id} with ${status}; moved to rejected/`);
+            await mkdir(rejectedDir(sinkId), { recursive: true });
+            await rename(entryPath(outboxDir(sinkId), entry.id), entryPath(rejectedDir(sinkId), entry.id));
+            result.rejected++;
+        } else {
+            await unlink(entryPath(outboxDir(sinkId), entry.id));
+            result.sent++;
+        }
+        result.remaining--;
+    }
+    return result;
+};
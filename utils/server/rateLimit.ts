@@ -0,0 +1,61 @@
+/**
+ * Fixed-window rate limiter kept in memory
+ * Counts are per server process, so with several instances the effective
+ * limit is multiplied by the instance count; good enough to stop a runaway
+ * script, not a billing-grade quota.
+ */
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number; // Epoch ms when the current window ends
+}
+
+export interface RateLimiter {
+    check: (key: string, limit: number) => RateLimitResult;
+}
+
+// Expired windows are swept once the map grows past this
+const SWEEP_THRESHOLD = 1000;
+
+export const createRateLimiter = (windowMs: number): RateLimiter => {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    const sweep = (now: number) => {
+        for (const [key, window] of windows) {
+            if (window.resetAt <= now) windows.delete(key);
+        }
+    };
+
+    const check = (key: string, limit: number): RateLimitResult => {
+        const now = Date.now();
+        if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+        let window = windows.get(key);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + windowMs };
+            windows.set(key, window);
+        }
+
+        // Rejected requests do not count, so a client that backs off recovers
+        const allowed = window.count < limit;
+        if (allowed) window.count++;
+        return { allowed, limit, remaining: Math.max(limit - window.count, 0), resetAt: window.resetAt };
+    };
+
+    return { check };
+};
+
+/**
+ * Standard RateLimit-* headers, plus Retry-After when the request was rejected.
+ */
+export const rateLimitHeaders = (result: RateLimitResult): Record<string, string> => {
+    const resetSeconds = Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0);
+    return {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(resetSeconds),
+        ...(!result.allowed && { 'Retry-After': String(resetSeconds) }),
+    };
+};
@@ -0,0 +1,36 @@
+/**
+ * Reads a request body, giving up as soon as it exceeds `maxBytes`.
+ * The App Router has no body size limit of its own (the Pages Router
+ * `config.api.bodyParser` export is ignored), so route handlers enforce it here.
+ * Returns null when the body is too large.
+ */
+export const readBodyBytesWithLimit = async (request: Request, maxBytes: number): Promise<Buffer | null> => {
+    // Reject early when the client announces a large body; a missing or lying
+    // Content-Length is still caught while streaming
+    const declared = Number(request.headers.get('content-length'));
+    if (declared > maxBytes) return null;
+    if (!request.body) return Buffer.alloc(0);
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.byteLength;
+        if (total > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+};
+
+/**
+ * Same as readBodyBytesWithLimit, decoded as UTF-8 text.
+ */
+export const readBodyWithLimit = async (request: Request, maxBytes: number): Promise<string | null> => {
+    const body = await readBodyBytesWithLimit(request, maxBytes);
+    return body && body.toString('utf8');
+};
@@ -0,0 +1,22 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import type { ArchiveSinkConfig, UploadSink } from '@/utils/server/sinks/types';
+
+/**
+ * Appends every upload as one JSON line to <dir>/uploads-YYYY-MM-DD.ndjson.
+ * Lines carry the idempotency key, so a replayed duplicate can be filtered
+ * out when reading the archive.
+ */
+export const createArchiveSink = (config: ArchiveSinkConfig): UploadSink => ({
+    id: config.id,
+    type: 'archive',
+    deliver: async (payload, idempotencyKey) => {
+        const now = new Date();
+        const dir = path.resolve(config.dir);
+        await mkdir(dir, { recursive: true });
+        const line = JSON.stringify({ idempotencyKey, receivedAt: now.toISOString(), payload });
+        // A single appendFile call writes the whole line at once
+        await appendFile(path.join(dir, `uploads-${now.toISOString().slice(0, 10)}.ndjson`), `${line}\n`);
+        return { status: 200 };
+    },
+});
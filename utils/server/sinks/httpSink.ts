@@ -0,0 +1,16 @@
+import { httpRequest } from '@/utils/server/httpRequest';
+import type { HttpSinkConfig, UploadSink } from '@/utils/server/sinks/types';
+
+/**
+ * POSTs the upload as JSON; the Idempotency-Key header lets the backend drop
+ * retries of a request it already stored.
+ */
+export const createHttpSink = (config: HttpSinkConfig): UploadSink => ({
+    id: config.id,
+    type: 'http',
+    deliver: (payload, idempotencyKey) =>
+        httpRequest(config.url, JSON.stringify(payload), {
+            headers: { 'Idempotency-Key': idempotencyKey },
+            caFile: config.caFile,
+        }),
+});
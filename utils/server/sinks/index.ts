@@ -0,0 +1,86 @@
+/**
+ * Upload destinations, configured server-side in UPLOAD_SINKS as a JSON array:
+ *   [{"id":"backend","type":"http","url":"https://lyrics.example/api","caFile":"/etc/ca.pem"},
+ *    {"id":"archive","type":"archive","dir":".data/archive"},
+ *    {"id":"hook","type":"webhook","url":"https://hooks.example/lyrics","secret":"…"},
+ *    {"id":"minio","type":"s3","endpoint":"http://localhost:9000","bucket":"lyrics",
+ *     "accessKeyId":"…","secretAccessKey":"…","prefix":"uploads/"}]
+ * Without UPLOAD_SINKS, REMOTE_BACKEND_URL (and REMOTE_BACKEND_CA_FILE) still
+ * configure a single HTTP sink called "backend".
+ */
+
+import { createArchiveSink } from '@/utils/server/sinks/archiveSink';
+import { createHttpSink } from '@/utils/server/sinks/httpSink';
+import { createS3Sink } from '@/utils/server/sinks/s3Sink';
+import { createWebhookSink } from '@/utils/server/sinks/webhookSink';
+import type { SinkConfig, UploadSink } from '@/utils/server/sinks/types';
+
+export type { SinkConfig, SinkResponse, SinkType, UploadSink } from '@/utils/server/sinks/types';
+
+// Sink ids name outbox directories, so they must be safe in a path
+const SINK_ID = /^[\w-]{1,64}$/;
+
+const REQUIRED_FIELDS: Record<SinkConfig['type'], string[]> = {
+    http: ['url'],
+    archive: ['dir'],
+    webhook: ['url', 'secret'],
+    s3: ['endpoint', 'bucket', 'accessKeyId', 'secretAccessKey'],
+};
+
+const createSink = (config: SinkConfig): UploadSink => {
+    switch (config.type) {
+        case 'http': return createHttpSink(config);
+        case 'archive': return createArchiveSink(config);
+        case 'webhook': return createWebhookSink(config);
+        case 's3': return createS3Sink(config);
+    }
+};
+
+const validate = (config: SinkConfig): string | null => {
+    if (!config || typeof config !== 'object') return `not an object: ${JSON.stringify(config)}`;
+    if (!SINK_ID.test(config.id ?? '')) return `invalid id "${config.id}"`;
+    const required = REQUIRED_FIELDS[config.type];
+    if (!required) return `unknown type "${config.type}"`;
+    const missing = required.filter((field) => !(config as unknown as Record<string, unknown>)[field]);
+    return missing.length > 0 ? `missing ${missing.join(', ')}` : null;
+};
+
+export const loadSinkConfigs = (): SinkConfig[] => {
+    const raw = process.env.UPLOAD_SINKS;
+    if (!raw) {
+        const url = process.env.REMOTE_BACKEND_URL;
+        return url ? [{ id: 'backend', type: 'http', url, caFile: process.env.REMOTE_BACKEND_CA_FILE }] : [];
+    }
+
+    let configs: unknown;
+    try {
+        configs = JSON.parse(raw);
+    } catch (error) {
+        console.error('[Sinks] UPLOAD_SINKS is not valid JSON:', error);
+        return [];
+    }
+    if (!Array.isArray(configs)) {
+        console.error('[Sinks] UPLOAD_SINKS must be a JSON array of sink objects');
+        return [];
+    }
+
+    // A broken entry is skipped, not fatal, so the other destinations keep working
+    const ids = new Set<string>();
+    return (configs as SinkConfig[]).filter((config) => {
+        const problem = validate(config) ?? (ids.has(config.id) ? `duplicate id "${config.id}"` : null);
+        if (problem) {
+            console.error(`[Sinks] Skipping sink: ${problem}`);
+            return false;
+        }
+        ids.add(config.id);
+        return true;
+    });
+};
+
+let sinks: UploadSink[] | null = null;
+
+// The environment does not change while the server runs
+export const loadSinks = (): UploadSink[] => {
+    sinks ??= loadSinkConfigs().map(createSink);
+    return sinks;
+};
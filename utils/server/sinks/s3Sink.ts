@@ -0,0 +1,73 @@
+import { createHash, createHmac } from 'crypto';
+import { httpRequest } from '@/utils/server/httpRequest';
+import type { S3SinkConfig, UploadSink } from '@/utils/server/sinks/types';
+
+const DEFAULT_REGION = 'us-east-1';
+
+const sha256Hex = (value: string) => createHash('sha256').update(value).digest('hex');
+const hmac = (key: string | Buffer, value: string) => createHmac('sha256', key).update(value).digest();
+
+// RFC 3986 encoding per path segment, as Signature V4 expects
+const encodePath = (value: string) =>
+    value.split('/').map((segment) => encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join('/');
+
+/**
+ * Authorization header for an AWS Signature Version 4 request to S3.
+ */
+const signRequest = (
+    config: S3SinkConfig,
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string
+): string => {
+    const region = config.region ?? DEFAULT_REGION;
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const names = Object.keys(headers).map((name) => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()]));
+    const canonicalHeaders = names.map((name) => `${name}:${lowerCased[name]}\n`).join('');
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+};
+
+/**
+ * PUTs every upload as <prefix><idempotency key>.json into an S3-compatible
+ * bucket (path-style URLs, as MinIO uses). The key depends on nothing but the
+ * idempotency key, so a retry or outbox replay, even days later, overwrites
+ * the same object instead of storing a second copy.
+ */
+export const createS3Sink = (config: S3SinkConfig): UploadSink => ({
+    id: config.id,
+    type: 's3',
+    deliver: (payload, idempotencyKey) => {
+        const now = new Date();
+        const objectKey = `${config.prefix ?? ''}${idempotencyKey}.json`;
+        const url = new URL(`${config.endpoint.replace(/\/+$/, '')}/${encodePath(config.bucket)}/${encodePath(objectKey)}`);
+
+        const body = JSON.stringify(payload);
+        const payloadHash = sha256Hex(body);
+        const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        const headers: Record<string, string> = {
+            Host: url.host,
+            'Content-Type': 'application/json',
+            'X-Amz-Content-Sha256': payloadHash,
+            'X-Amz-Date': amzDate,
+        };
+
+        return httpRequest(url.toString(), body, {
+            method: 'PUT',
+            headers: { ...headers, Authorization: signRequest(config, 'PUT', url, headers, payloadHash, amzDate) },
+            caFile: config.caFile,
+        });
+    },
+});
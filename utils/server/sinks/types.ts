@@ -0,0 +1,52 @@
+export type SinkType = 'http' | 'archive' | 'webhook' | 's3';
+
+export interface SinkResponse {
+    status: number; // HTTP status, or 200 for local sinks
+    data?: unknown;  // Answer body, passed back to the client for HTTP sinks
+}
+
+/**
+ * A destination for uploads. `deliver` makes a single attempt: it resolves
+ * with the destination's answer and rejects when it could not be reached.
+ * Retries and the outbox are handled by the caller.
+ */
+export interface UploadSink {
+    id: string;
+    type: SinkType;
+    deliver: (payload: unknown, idempotencyKey: string) => Promise<SinkResponse>;
+}
+
+export interface HttpSinkConfig {
+    id: string;
+    type: 'http';
+    url: string;
+    caFile?: string; // PEM, added to the system roots
+}
+
+export interface ArchiveSinkConfig {
+    id: string;
+    type: 'archive';
+    dir: string; // One NDJSON file per day is appended to here
+}
+
+export interface WebhookSinkConfig {
+    id: string;
+    type: 'webhook';
+    url: string;
+    secret: string; // Shared HMAC secret
+    caFile?: string;
+}
+
+export interface S3SinkConfig {
+    id: string;
+    type: 's3';
+    endpoint: string; // e.g. http://localhost:9000 for MinIO
+    bucket: string;
+    region?: string;  // Defaults to us-east-1, which MinIO accepts
+    accessKeyId: string;
+    secretAccessKey: string;
+    prefix?: string;  // Key prefix, e.g. "lyrics/"
+    caFile?: string;
+}
+
+export type SinkConfig = HttpSinkConfig | ArchiveSinkConfig | WebhookSinkConfig | S3SinkConfig;
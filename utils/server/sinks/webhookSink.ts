@@ -0,0 +1,27 @@
+import { createHmac } from 'crypto';
+import { httpRequest } from '@/utils/server/httpRequest';
+import type { UploadSink, WebhookSinkConfig } from '@/utils/server/sinks/types';
+
+/**
+ * POSTs the upload with an HMAC-SHA256 signature the receiver can verify:
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Signature: sha256=hex(HMAC(secret, `${timestamp}.${body}`))
+ * Signing the timestamp with the body lets receivers reject old replays.
+ */
+export const createWebhookSink = (config: WebhookSinkConfig): UploadSink => ({
+    id: config.id,
+    type: 'webhook',
+    deliver: (payload, idempotencyKey) => {
+        const body = JSON.stringify(payload);
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const signature = createHmac('sha256', config.secret).update(`${timestamp}.${body}`).digest('hex');
+        return httpRequest(config.url, body, {
+            headers: {
+                'Idempotency-Key': idempotencyKey,
+                'X-Webhook-Timestamp': timestamp,
+                'X-Webhook-Signature': `sha256=${signature}`,
+            },
+            caFile: config.caFile,
+        });
+    },
+});
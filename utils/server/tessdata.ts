@@ -0,0 +1,26 @@
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import type { LanguagePack } from '@/utils/languagePacks';
+
+// The language models the browser downloads from /tessdata; server-side OCR reads them from disk
+export const TESSDATA_DIR = path.join(process.cwd(), 'public', 'tessdata');
+const EXTENSION = '.traineddata';
+
+/**
+ * Installed language models with their sizes, sorted by code.
+ * Without a public/tessdata folder nothing is installed: an empty list.
+ */
+export const listLanguagePacks = async (): Promise<LanguagePack[]> => {
+    let files: string[];
+    try {
+        files = (await readdir(TESSDATA_DIR)).filter((file) => file.endsWith(EXTENSION));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+    const languages: LanguagePack[] = await Promise.all(files.map(async (file) => ({
+        code: file.slice(0, -EXTENSION.length),
+        size: (await stat(path.join(TESSDATA_DIR, file))).size,
+    })));
+    return languages.sort((a, b) => a.code.localeCompare(b.code));
+};
@@ -0,0 +1,132 @@
+/**
+ * Delivers uploads to every configured sink without losing them
+ * - All sinks get the upload in parallel, each with its own retries; a sink
+ *   that still fails (unreachable or 5xx) keeps the upload in its own outbox
+ *   while the others are unaffected
+ * - Each sink's outbox is replayed every OUTBOX_REPLAY_INTERVAL_MS (default
+ *   60s) once this module is in use, and right after that sink accepts an
+ *   upload, since that means it has recovered
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { addToOutbox, flushOutbox, listOutbox } from '@/utils/server/outbox';
+import { isRetryableStatus, withRetry } from '@/utils/server/httpRequest';
+import { loadSinks, SinkType, UploadSink } from '@/utils/server/sinks';
+
+export type DestinationStatus = 'delivered' | 'queued' | 'failed';
+
+export interface DestinationResult {
+    id: string;
+    type: SinkType;
+    status: DestinationStatus;
+    httpStatus?: number;
+    error?: string;
+    data?: unknown; // The destination's answer, when it gave one
+}
+
+const DEFAULT_REPLAY_INTERVAL_MS = 60_000;
+
+const CLIENT_IDEMPOTENCY_KEY = /^[\w-]{8,128}$/;
+
+export const isValidClientIdempotencyKey = (key: string) => CLIENT_IDEMPOTENCY_KEY.test(key);
+
+/**
+ * Key sent to every sink and used for the outboxes. A client key is scoped to
+ * the uploader, so two users can never collide; without one, the key still
+ * makes this server's own retries safe.
+ */
+export const idempotencyKeyFor = (uploaderId: string, clientKey: string | null) =>
+    clientKey ? createHash('sha256').update(`${uploaderId}:${clientKey}`).digest('hex') : randomUUID();
+
+/**
+ * HTTP status summing up a delivery: 200 when every destination has the
+ * upload, 202 when some will get it from their outbox and 207 when some
+ * failed. When all failed: 422 if every one rejected the upload itself
+ * (resending cannot help), otherwise 502.
+ */
+export const deliveryStatus = (destinations: DestinationResult[]): number => {
+    const failed = destinations.filter((d) => d.status === 'failed');
+    if (failed.length === destinations.length) {
+        return failed.every((d) => d.httpStatus !== undefined && d.httpStatus < 500) ? 422 : 502;
+    }
+    if (failed.length > 0) return 207;
+    return destinations.some((d) => d.status === 'queued') ? 202 : 200;
+};
+
+let replayTimer: ReturnType<typeof setInterval> | null = null;
+const replaying = new Map<string, Promise<void>>();
+
+/**
+ * Replays one sink's outbox; concurrent calls share the same run.
+ */
+const replaySink = (sink: UploadSink): Promise<void> => {
+    let run = replaying.get(sink.id);
+    if (!run) {
+        run = (async () => {
+            try {
+                if ((await listOutbox(sink.id)).length === 0) return;
+                // Single attempts: the replay interval is the backoff
+                const result = await flushOutbox(sink.id, async (entry) =>
+                    (await sink.deliver(entry.payload, entry.id)).status
+                );
+                console.log(`[Outbox] ${sink.id}: replayed ${result.sent}, rejected ${result.rejected}, ${result.remaining} still pending`);
+            } catch (error) {
+                console.error(`[Outbox] ${sink.id}: replay failed:`, error);
+            } finally {
+                replaying.delete(sink.id);
+            }
+        })();
+        replaying.set(sink.id, run);
+    }
+    return run;
+};
+
+export const replayOutbox = async (): Promise<void> => {
+    await Promise.all(loadSinks().map(replaySink));
+};
+
+const ensureReplayTimer = () => {
+    if (replayTimer) return;
+    replayTimer = setInterval(replayOutbox, Number(process.env.OUTBOX_REPLAY_INTERVAL_MS) || DEFAULT_REPLAY_INTERVAL_MS);
+    replayTimer.unref?.(); // Never keeps the process alive on its own
+};
+
+const deliverToSink = async (sink: UploadSink, payload: unknown, idempotencyKey: string): Promise<DestinationResult> => {
+    const result = { id: sink.id, type: sink.type };
+
+    let failure: string;
+    try {
+        const response = await withRetry(sink.id, () => sink.deliver(payload, idempotencyKey));
+        if (!isRetryableStatus(response.status)) {
+            const answer = { ...result, httpStatus: response.status, data: response.data };
+            if (response.status >= 400) {
+                // The upload itself is wrong for this sink; retrying cannot help
+                console.error(`[Sinks] ${sink.id} rejected ${idempotencyKey} with ${response.status}`);
+                return { ...answer, status: 'failed', error: `HTTP ${response.status}` };
+            }
+            void replaySink(sink);
+            return { ...answer, status: 'delivered' };
+        }
+        failure = `HTTP ${response.status}`;
+    } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+    }
+
+    try {
+        await addToOutbox(sink.id, idempotencyKey, payload, failure);
+    } catch (error) {
+        console.error(`[Outbox] ${sink.id}: could not store ${idempotencyKey}:`, error);
+        return { ...result, status: 'failed', error: failure };
+    }
+    console.error(`[Outbox] ${sink.id} unavailable (${failure}); stored ${idempotencyKey} for replay`);
+    return { ...result, status: 'queued', error: failure };
+};
+
+/**
+ * Sends one upload to every sink. Never rejects: each destination reports its
+ * own outcome.
+ */
+export const deliverUpload = async (payload: unknown, idempotencyKey: string): Promise<DestinationResult[]> => {
+    ensureReplayTimer();
+    return Promise.all(loadSinks().map((sink) => deliverToSink(sink, payload, idempotencyKey)));
+};
@@ -0,0 +1,281 @@
+/**
+ * Tesseract Worker Pool
+ * Keeps a few long-lived workers around so the traineddata is only loaded once:
+ * - Workers are created lazily, up to the pool size
+ * - An idle worker already loaded with the requested languages and engine
+ *   options is preferred
+ * - Otherwise an idle worker with the same engine mode is reinitialized; the
+ *   engine mode decides which wasm core a worker loads, so it is never changed
+ * - Per-job parameters (segmentation mode, character lists) are set before
+ *   every recognition
+ * - Jobs wait in FIFO order when every worker is busy
+ * - A job can be aborted; a worker aborted mid-recognition is terminated
+ * The same pool runs on the server (/api/ocr) with Node worker options.
+ */
+
+import { createWorker, ImageLike, OEM, Page, Rectangle, Worker, WorkerOptions, WorkerParams } from 'tesseract.js';
+import { DEFAULT_ENGINE_OPTIONS, EngineOptions } from '@/utils/engineOptions';
+
+// Where the worker script and wasm cores are served from (public/tesseract)
+export const TESSERACT_ASSET_PATH = '/tesseract';
+
+export type PoolWorkerOptions = Omit<Partial<WorkerOptions>, 'logger'>;
+
+const BROWSER_WORKER_OPTIONS: PoolWorkerOptions = {
+    langPath: '/tessdata', // Points to public/tessdata which we populated
+    gzip: false, // Our local files are .traineddata (not .gz)
+    // Self-hosted copies (scripts/copy-tesseract-assets.mjs) instead of the CDN, so OCR works offline
+    workerPath: `${TESSERACT_ASSET_PATH}/worker.min.js`,
+    corePath: TESSERACT_ASSET_PATH,
+    workerBlobURL: false, // Load the worker script by URL so the service worker can serve it
+};
+
+export type ProgressHandler = (status: string, progress: number) => void;
+
+export interface RecognizeOptions {
+    rectangle?: Rectangle; // Only recognize this part of the image (pixels); boxes stay in full-image coordinates
+    engine?: EngineOptions;
+}
+
+export interface WorkerPool {
+    recognize: (
+        image: ImageLike,
+        languages: string,
+        onProgress?: ProgressHandler,
+        signal?: AbortSignal,
+        options?: RecognizeOptions
+    ) => Promise<Page>;
+    terminate: () => Promise<void>;
+}
+
+interface PoolSlot {
+    worker: Promise<Worker>;
+    languages: string;
+    oem: OEM;
+    dictionaries: string; // User words and patterns the worker was initialized with
+    busy: boolean;
+    onProgress?: ProgressHandler; // Swapped per job, the worker logger is fixed at creation
+}
+
+export const isAbortError = (err: unknown): boolean =>
+    err instanceof Error && err.name === 'AbortError';
+
+const abortError = () => {
+    const err = new Error('OCR job was cancelled');
+    err.name = 'AbortError';
+    return err;
+};
+
+/**
+ * Settles with the given promise, or rejects as soon as the signal aborts.
+ */
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortError());
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+// Files in the worker's in-memory file system that Tesseract reads at initialization
+const USER_WORDS_FILE = '/user-words';
+const USER_PATTERNS_FILE = '/user-patterns';
+
+const dictionariesKey = (engine: EngineOptions) => `${engine.userWords.trim()}\0${engine.userPatterns.trim()}`;
+
+// Never empty: reinitializing with an empty config would keep the previous one
+const initConfig = (engine: EngineOptions) => [
+    '# Generated by the worker pool',
+    ...(engine.userWords.trim() ? [`user_words_file ${USER_WORDS_FILE}`] : []),
+    ...(engine.userPatterns.trim() ? [`user_patterns_file ${USER_PATTERNS_FILE}`] : []),
+].join('\n');
+
+const jobParameters = (engine: EngineOptions): Partial<WorkerParams> => ({
+    tessedit_pageseg_mode: engine.psm,
+    tessedit_char_whitelist: engine.whitelist,
+    tessedit_char_blacklist: engine.blacklist,
+    preserve_interword_spaces: engine.preserveInterwordSpaces ? '1' : '0',
+});
+
+/**
+ * (Re)initializes a worker with the given languages and the user word and
+ * pattern lists, which Tesseract only reads at initialization.
+ */
+const initialize = async (worker: Worker, languages: string, engine: EngineOptions) => {
+    await worker.writeText(USER_WORDS_FILE, `${engine.userWords.trim()}\n`);
+    await worker.writeText(USER_PATTERNS_FILE, `${engine.userPatterns.trim()}\n`);
+    await worker.reinitialize(languages, engine.oem, initConfig(engine));
+};
+
+/**
+ * One worker per spare core, capped: every worker holds its own copy of the model.
+ */
+export const defaultPoolSize = (): number => {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.min(Math.max(cores - 1, 1), 4);
+};
+
+export const createWorkerPool = (
+    size: number = defaultPoolSize(),
+    workerOptions: PoolWorkerOptions = BROWSER_WORKER_OPTIONS
+): WorkerPool => {
+    const slots: PoolSlot[] = [];
+    const waiting: Array<() => void> = [];
+    let terminated = false;
+
+    const spawn = (languages: string, engine: EngineOptions): PoolSlot => {
+        const dictionaries = dictionariesKey(engine);
+        const slot: PoolSlot = {
+            languages,
+            oem: engine.oem,
+            dictionaries,
+            busy: true,
+            // The legacy engine modes make tesseract.js load the larger non-LSTM core
+            worker: createWorker(languages, engine.oem, {
+                ...workerOptions,
+                logger: (m) => slot.onProgress?.(m.status, m.progress),
+            }).then(async (worker) => {
+                if (dictionaries === dictionariesKey(DEFAULT_ENGINE_OPTIONS)) return worker;
+                try {
+                    await initialize(worker, languages, engine);
+                    return worker;
+                } catch (err) {
+                    await worker.terminate();
+                    throw err;
+                }
+            }),
+        };
+        slots.push(slot);
+        return slot;
+    };
+
+    const discard = (slot: PoolSlot) => {
+        const index = slots.indexOf(slot);
+        if (index >= 0) slots.splice(index, 1);
+        slot.worker.then((worker) => worker.terminate()).catch(() => undefined);
+    };
+
+    const release = (slot: PoolSlot) => {
+        slot.busy = false;
+        slot.onProgress = undefined;
+        waiting.shift()?.();
+    };
+
+    const acquire = async (languages: string, engine: EngineOptions, signal?: AbortSignal): Promise<PoolSlot> => {
+        const dictionaries = dictionariesKey(engine);
+        for (;;) {
+            if (terminated) throw new Error('Tesseract worker pool has been terminated');
+            if (signal?.aborted) throw abortError();
+
+            const idle = slots.filter((slot) => !slot.busy);
+            const compatible = idle.filter((slot) => slot.oem === engine.oem);
+            const match = compatible.find((slot) => slot.languages === languages && slot.dictionaries === dictionaries);
+            if (match) {
+                match.busy = true;
+                return match;
+            }
+
+            // Switching languages reloads the traineddata on an existing worker
+            // rather than paying for a whole new worker
+            if (compatible.length > 0) {
+                const slot = compatible[0];
+                slot.busy = true;
+                try {
+                    const worker = await slot.worker;
+                    await initialize(worker, languages, engine);
+                    slot.languages = languages;
+                    slot.dictionaries = dictionaries;
+                    return slot;
+                } catch (err) {
+                    discard(slot);
+                    release(slot);
+                    throw err;
+                }
+            }
+
+            if (slots.length < size) return spawn(languages, engine);
+
+            // Only workers with another engine mode are idle; replace one
+            if (idle.length > 0) {
+                discard(idle[0]);
+                return spawn(languages, engine);
+            }
+
+            // Wait for a worker to be released, or leave the queue when aborted
+            await new Promise<void>((resolve) => {
+                const wake = () => {
+                    const index = waiting.indexOf(wake);
+                    if (index >= 0) waiting.splice(index, 1);
+                    signal?.removeEventListener('abort', wake);
+                    resolve();
+                };
+                waiting.push(wake);
+                signal?.addEventListener('abort', wake, { once: true });
+            });
+        }
+    };
+
+    const recognize = async (
+        image: ImageLike,
+        languages: string,
+        onProgress?: ProgressHandler,
+        signal?: AbortSignal,
+        options: RecognizeOptions = {}
+    ): Promise<Page> => {
+        const { engine = DEFAULT_ENGINE_OPTIONS, ...recognizeOptions } = options;
+        const slot = await acquire(languages, engine, signal);
+        slot.onProgress = onProgress;
+        try {
+            const worker = await withAbort(slot.worker, signal);
+            // Always set every parameter so nothing carries over from the previous job
+            await withAbort(worker.setParameters(jobParameters(engine)), signal);
+            // Blocks carry the line/word/symbol tree with confidences and bounding boxes
+            const { data } = await withAbort(worker.recognize(image, recognizeOptions, { blocks: true }), signal);
+            return data;
+        } catch (err) {
+            // A worker that failed or was aborted mid-job may still be busy or broken,
+            // terminating it is the only way to stop Tesseract
+            discard(slot);
+            throw err;
+        } finally {
+            release(slot);
+        }
+    };
+
+    const terminate = async () => {
+        terminated = true;
+        waiting.splice(0).forEach((resolve) => resolve());
+        const workers = slots.splice(0).map((slot) => slot.worker);
+        await Promise.all(workers.map((worker) => worker.then((w) => w.terminate()).catch(() => undefined)));
+    };
+
+    return { recognize, terminate };
+};
+
+// Shared pool, reference counted by the components that use OCR
+let sharedPool: WorkerPool | null = null;
+let sharedPoolUsers = 0;
+
+export const getSharedWorkerPool = (): WorkerPool => {
+    if (!sharedPool) sharedPool = createWorkerPool();
+    return sharedPool;
+};
+
+export const retainSharedWorkerPool = () => {
+    sharedPoolUsers++;
+};
+
+export const releaseSharedWorkerPool = () => {
+    sharedPoolUsers = Math.max(sharedPoolUsers - 1, 0);
+    if (sharedPoolUsers === 0 && sharedPool) {
+        sharedPool.terminate();
+        sharedPool = null;
+    }
+};
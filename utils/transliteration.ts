@@ -0,0 +1,113 @@
+/**
+ * SERA-style transliteration input for Amharic
+ * Converts Latin keystrokes into fidel as you type, one key at a time:
+ * - A consonant inserts its bare (6th order) form: s -> ስ
+ * - A vowel after a bare consonant turns it into that order: ስ + e -> ሰ
+ * - A vowel anywhere else inserts an independent vowel: a -> አ
+ * - W after a bare consonant gives the labialized form, with an optional a: lWa -> ሏ
+ * - ^s ^h ^S give ሠ ኀ ፀ, `a gives ዓ (and the other ዐ orders)
+ * - ' separates a bare consonant from a following vowel: s'a -> ስአ
+ * - , ; : give ፣ ፤ ፡ and a second : turns ፡ into ።
+ */
+
+import { decomposeFidel, LABIALIZED_SERIES } from '@/utils/fidel';
+
+// First-order code point for every consonant key
+const CONSONANTS: Record<string, number> = {
+    h: 0x1200, l: 0x1208, H: 0x1210, m: 0x1218, r: 0x1228, s: 0x1230,
+    x: 0x1238, q: 0x1240, Q: 0x1250, b: 0x1260, v: 0x1268, t: 0x1270,
+    c: 0x1278, n: 0x1290, N: 0x1298, k: 0x12A8, K: 0x12B8, w: 0x12C8,
+    z: 0x12D8, Z: 0x12E0, y: 0x12E8, d: 0x12F0, j: 0x1300, g: 0x1308,
+    T: 0x1320, C: 0x1328, P: 0x1330, S: 0x1338, f: 0x1348, p: 0x1350,
+};
+
+// Consonants typed after ^
+const CARET_CONSONANTS: Record<string, number> = { s: 0x1220, h: 0x1280, S: 0x1340 };
+
+// Vowel order (0-based) for each vowel key; the 6th order (index 5) is the bare consonant
+const VOWEL_ORDERS: Record<string, number> = { e: 0, u: 1, i: 2, a: 3, E: 4, I: 5, o: 6 };
+
+// Independent vowels use the አ carrier, with "a" and "e" following everyday spelling (አበባ, እናት)
+const INDEPENDENT_VOWELS: Record<string, string> = { a: 'አ', e: 'እ', u: 'ኡ', i: 'ኢ', E: 'ኤ', I: 'እ', o: 'ኦ' };
+
+const AYN = 0x12D0;
+
+const PUNCTUATION: Record<string, string> = { ',': '፣', ';': '፤', ':': '፡' };
+
+const BARE_ORDER = 5;
+
+export interface TransliterationEdit {
+    deleteCount: number; // Characters to remove before the caret
+    insert: string;
+    separated: boolean;  // Whether the next vowel must not attach to the consonant before it
+}
+
+/**
+ * Works out what a single key press does given the text before the caret.
+ * Returns null when the key is not handled and should be typed as-is.
+ */
+export const transliterateKey = (before: string, key: string, separated: boolean = false): TransliterationEdit | null => {
+    const last = before.slice(-1);
+    const parts = last ? decomposeFidel(last) : null;
+    const bare = parts?.order === BARE_ORDER && !separated ? parts : null;
+
+    if (key === "'") {
+        // Only meaningful after a bare consonant; elsewhere it is a normal apostrophe
+        return bare ? { deleteCount: 0, insert: '', separated: true } : null;
+    }
+
+    if (last === '^' && CARET_CONSONANTS[key] !== undefined) {
+        return { deleteCount: 1, insert: String.fromCodePoint(CARET_CONSONANTS[key] + BARE_ORDER), separated: false };
+    }
+
+    if (key === 'a' && separated && parts?.order === 7) {
+        return { deleteCount: 0, insert: '', separated: false }; // The "a" of "Wa"
+    }
+
+    if (key in VOWEL_ORDERS) {
+        const order = VOWEL_ORDERS[key];
+        if (last === '`') {
+            return { deleteCount: 1, insert: String.fromCodePoint(AYN + order), separated: false };
+        }
+        if (bare) {
+            return { deleteCount: 1, insert: String.fromCodePoint(bare.base + order), separated: false };
+        }
+        return { deleteCount: 0, insert: INDEPENDENT_VOWELS[key], separated: false };
+    }
+
+    if (key === 'W' && bare && LABIALIZED_SERIES.has(bare.base)) {
+        return { deleteCount: 1, insert: String.fromCodePoint(bare.base + 7), separated: true };
+    }
+
+    if (CONSONANTS[key] !== undefined) {
+        return { deleteCount: 0, insert: String.fromCodePoint(CONSONANTS[key] + BARE_ORDER), separated: false };
+    }
+
+    if (key === ':' && last === '፡') {
+        return { deleteCount: 1, insert: '።', separated: false };
+    }
+    if (PUNCTUATION[key]) {
+        return { deleteCount: 0, insert: PUNCTUATION[key], separated: false };
+    }
+
+    return null;
+};
+
+/**
+ * Converts a whole Latin string, e.g. "selam" -> "ሰላም".
+ */
+export const transliterate = (latin: string): string => {
+    let result = '';
+    let separated = false;
+    for (const key of latin) {
+        const edit = transliterateKey(result, key, separated);
+        if (!edit) {
+            result += key;
+            separated = false;
+            continue;
+        }
+        result = result.slice(0, result.length - edit.deleteCount) + edit.insert;
+        separated = edit.separated;
+    }
+    return result;
+};
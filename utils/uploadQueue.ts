@@ -0,0 +1,137 @@
+/**
+ * Uploads to /api/upload-lyrics that could not be sent (offline, server
+ * unreachable), kept in IndexedDB and retried in order once back online.
+ * One the server rejects for good stays in the store marked as failed, so
+ * the lyrics are never lost without the user seeing why.
+ */
+
+import type { LyricsDocument } from '@/utils/lyrics';
+import type { DuplicateResolution } from '@/utils/lyricsFingerprint';
+import { openDatabase, promisify, STORES, transactionDone } from '@/utils/localDatabase';
+
+const STORE = STORES.uploadQueue;
+
+export interface UploadPayload {
+    text: string;
+    lyrics?: LyricsDocument;
+    metadata: Record<string, unknown>;
+    duplicate?: DuplicateResolution;
+}
+
+export interface QueuedUpload {
+    id: number;
+    payload: UploadPayload;
+    idempotencyKey?: string; // Same key as the attempt that failed, so a late success is not duplicated
+    queuedAt: number;
+    attempts: number;
+    lastError?: string;
+    failed?: FailedUpload; // Set once the server rejected it; not sent again unless retried
+}
+
+export interface FailedUpload {
+    status: number;
+    message: string;
+    failedAt: number;
+}
+
+/**
+ * Sends one payload. Resolves the response for HTTP errors; rejects only when
+ * the server could not be reached at all.
+ */
+export type UploadSender = (payload: UploadPayload, idempotencyKey?: string) => Promise<Response>;
+
+export interface FlushResult {
+    sent: number;
+    failed: number;    // Rejected by the server; retrying would not help
+    remaining: number;
+}
+
+// Client errors other than timeouts and rate limits will fail the same way every time;
+// 401 only means the session expired, so the upload waits for the next sign-in
+const isRetryableStatus = (status: number) => status >= 500 || status === 401 || status === 408 || status === 429;
+
+export const enqueueUpload = async (payload: UploadPayload, idempotencyKey?: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).add({ payload, idempotencyKey, queuedAt: Date.now(), attempts: 0 });
+    await transactionDone(transaction);
+};
+
+/**
+ * Queued uploads, oldest first (ids are auto-incremented), failed ones included.
+ */
+export const listQueuedUploads = async (): Promise<QueuedUpload[]> => {
+    const db = await openDatabase();
+    return promisify(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<QueuedUpload[]>);
+};
+
+export const removeQueuedUpload = async (id: number): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+const putQueuedUpload = async (upload: QueuedUpload): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).put(upload);
+    await transactionDone(transaction);
+};
+
+const recordAttempt = (upload: QueuedUpload, error: string): Promise<void> =>
+    putQueuedUpload({ ...upload, attempts: upload.attempts + 1, lastError: error });
+
+/**
+ * Puts a failed upload back in line; it is sent with the next flush.
+ */
+export const retryFailedUpload = async (upload: QueuedUpload): Promise<void> => {
+    const pending = { ...upload };
+    delete pending.failed;
+    await putQueuedUpload(pending);
+};
+
+// The route's JSON error body, when it has one
+const responseMessage = async (response: Response): Promise<string> => {
+    const body = await response.json().catch(() => null) as { error?: string; message?: string } | null;
+    return body?.message || body?.error || `HTTP ${response.status}`;
+};
+
+/**
+ * Sends queued uploads in order. Stops at the first one that fails in a way
+ * worth retrying, so the order in which lyrics were saved is kept.
+ */
+export const flushUploadQueue = async (send: UploadSender): Promise<FlushResult> => {
+    const queued = (await listQueuedUploads()).filter((upload) => !upload.failed);
+    const result: FlushResult = { sent: 0, failed: 0, remaining: queued.length };
+
+    for (const upload of queued) {
+        let response: Response;
+        try {
+            response = await send(upload.payload, upload.idempotencyKey);
+        } catch (e) {
+            await recordAttempt(upload, e instanceof Error ? e.message : 'Network error');
+            break;
+        }
+
+        if (!response.ok && isRetryableStatus(response.status)) {
+            await recordAttempt(upload, `HTTP ${response.status}`);
+            break;
+        }
+        if (!response.ok) {
+            const message = await responseMessage(response);
+            console.error(`Queued upload ${upload.id} rejected: ${response.status} ${message}`);
+            await putQueuedUpload({
+                ...upload,
+                attempts: upload.attempts + 1,
+                failed: { status: response.status, message, failedAt: Date.now() },
+            });
+            result.failed++;
+        } else {
+            await removeQueuedUpload(upload.id);
+            result.sent++;
+        }
+        result.remaining--;
+    }
+    return result;
+};
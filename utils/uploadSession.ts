@@ -0,0 +1,30 @@
+/**
+ * Web sign-in for uploads. The API key is exchanged once for an HttpOnly
+ * session cookie (/api/session); uploads then authenticate with the cookie,
+ * so no key is kept in the page or in localStorage.
+ */
+
+export interface UploadSession {
+    authenticated: boolean;
+    name: string | null;
+    enabled: boolean; // False when the server has no SESSION_SECRET
+}
+
+const readSession = async (res: Response): Promise<UploadSession> => {
+    const body = (await res.json()) as UploadSession & { error?: string };
+    if (!res.ok) throw new Error(body.error ?? `Sign-in failed (${res.status})`);
+    return body;
+};
+
+export const fetchUploadSession = async (): Promise<UploadSession> =>
+    readSession(await fetch('/api/session', { cache: 'no-store' }));
+
+export const signInWithApiKey = async (apiKey: string): Promise<UploadSession> =>
+    readSession(await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey }),
+    }));
+
+export const signOutUploadSession = async (): Promise<UploadSession> =>
+    readSession(await fetch('/api/session', { method: 'DELETE' }));